@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import {
   MongoClient,
   Collection,
@@ -12,6 +13,7 @@ import {
 import {
   Constructor,
   GetRepository,
+  Mutable,
   PartialDeep,
   WithDocumentFields
 } from './typings';
@@ -21,6 +23,26 @@ import { EventSubscriber } from './events';
 import { EventManager } from './events';
 import { EmbeddedDocumentMetadata } from './metadata';
 import { InternalError } from './errors';
+import {
+  exportSchemas,
+  ExportSchemasOptions,
+  IndexSyncPlan,
+  JSONSchema,
+  SyncIndexesOptions,
+  syncIndexes,
+  SyncValidatorsOptions,
+  syncValidators,
+  ValidatorSyncPlan
+} from './schema';
+import {
+  MigrateOptions,
+  MigrationResult,
+  MigrationsSource,
+  Migrator,
+  RollbackOptions
+} from './migrations';
+import { UnitOfWork } from './unitofwork';
+import { Repository } from './repository';
 
 export interface ContainerLike {
   get: <T = any>(service: Constructor<T>) => any;
@@ -44,6 +66,7 @@ interface BaseDocumentManagerOptions {
   subscribers?: EventSubscriber[];
   container?: ContainerLike;
   shouldConnect?: boolean;
+  migrations?: MigrationsSource;
 }
 
 export interface DocumentManagerOptionsUsingUri
@@ -63,11 +86,23 @@ export interface DocumentManagerOptionsUsingClient
  * This is where all the magic happens. :)
  */
 export class DocumentManager {
+  /**
+   * The unit of work of a forked manager.
+   */
+  public readonly unitOfWork?: UnitOfWork;
+
+  protected readonly forkedRepositories = new Map<
+    DocumentMetadata,
+    Repository
+  >();
+
   private constructor(
     public readonly client: MongoClient,
     public readonly metadataFactory: DocumentMetadataFactory,
     public readonly eventManager: EventManager,
-    public readonly container: ContainerLike
+    public readonly container: ContainerLike,
+    protected readonly migrations: MigrationsSource = [],
+    protected readonly sessionStorage = new AsyncLocalStorage<ClientSession>()
   ) {}
 
   /**
@@ -159,6 +194,20 @@ export class DocumentManager {
     return this.getAnyMetadata<T>(DocumentClass).toObject(model);
   }
 
+  /**
+   * Converts the model to a plain object of JSON values.
+   */
+  toJSON<T>(DocumentClass: Constructor<T>, model: T): Record<string, any> {
+    return this.getAnyMetadata<T>(DocumentClass).toJSON(model);
+  }
+
+  /**
+   * Creates a model from it's JSON representation.
+   */
+  fromJSON<T>(DocumentClass: Constructor<T>, json: Record<string, any>): T {
+    return this.getAnyMetadata<T>(DocumentClass).fromJSON(json);
+  }
+
   /**
    * Converts the model fields to a mongodb document.
    */
@@ -192,35 +241,197 @@ export class DocumentManager {
   getRepository<Model, Document = WithDocumentFields<Model>>(
     DocumentClass: Constructor<Model>
   ): GetRepository<Model> {
-    return this.getMetadataFor<Model, Document>(DocumentClass)
-      .repository as GetRepository<Model>;
+    const meta = this.getMetadataFor<Model, Document>(DocumentClass);
+
+    if (!this.unitOfWork) {
+      return meta.repository as GetRepository<Model>;
+    }
+
+    // forked repositories use the fork's manager (and unit of work)
+    if (!this.forkedRepositories.has(meta)) {
+      this.forkedRepositories.set(
+        meta,
+        Object.create(meta.repository, { manager: { value: this } })
+      );
+    }
+
+    return this.forkedRepositories.get(meta) as GetRepository<Model>;
+  }
+
+  // -------------------------------------------------------------------------
+  // Unit of Work
+  // -------------------------------------------------------------------------
+
+  /**
+   * Creates a manager with it's own unit of work (identity map & change
+   * tracking) that shares the client & metadata.
+   */
+  fork(): DocumentManager {
+    const fork = new DocumentManager(
+      this.client,
+      this.metadataFactory,
+      this.eventManager,
+      this.container,
+      this.migrations,
+      this.sessionStorage
+    );
+    (fork as Mutable<DocumentManager>).unitOfWork = new UnitOfWork(fork);
+
+    return fork;
+  }
+
+  /**
+   * Schedules the model to be inserted on `flush()`.
+   */
+  persist<Model>(model: Model): void {
+    this.getUnitOfWork().persist(model);
+  }
+
+  /**
+   * Schedules the model to be deleted on `flush()`.
+   */
+  remove<Model>(model: Model): void {
+    this.getUnitOfWork().remove(model);
+  }
+
+  /**
+   * Writes all the changes tracked by the unit of work.
+   */
+  async flush(opts?: WithTransactionOptions): Promise<void> {
+    await this.getUnitOfWork().flush(opts);
+  }
+
+  /**
+   * Detaches every model from the unit of work.
+   */
+  clear(): void {
+    this.getUnitOfWork().clear();
   }
 
   startSession(opts?: ClientSessionOptions): ClientSession {
     return this.client.startSession(opts);
   }
 
+  /**
+   * Gets the session of the transaction the current async context runs in
+   * (see `withTransaction()`).
+   */
+  currentSession(): ClientSession | undefined {
+    const session = this.sessionStorage.getStore();
+
+    return session && !session.hasEnded ? session : undefined;
+  }
+
+  /**
+   * Runs the callback in a transaction.  Repositories use the transaction's
+   * session unless a session is passed (or `useCurrentSession` is `false`),
+   * and nested calls join the active transaction.  The commit & rollback
+   * events of the writes are dispatched once the transaction settled.
+   */
   async withTransaction<T = any>(
     cb: WithTransactionCallback<T>,
     opts: WithTransactionOptions = {}
   ): Promise<T | void> {
     let result: T;
 
+    const current = this.currentSession();
+    if (current?.inTransaction()) {
+      return (await cb(current)) as T;
+    }
+
     const session = this.startSession(opts?.session);
 
+    let isActive = false;
+    let isCommitted = false;
+
     try {
       await session.withTransaction(async (session: ClientSession) => {
-        result = (await cb(session)) as T;
+        // retries discard the writes of the previous attempt
+        await this.eventManager.rollbackTransaction(session);
+        this.eventManager.beginTransaction(session);
+
+        result = (await this.sessionStorage.run(session, () =>
+          cb(session)
+        )) as T;
+
+        // callbacks that end the transaction themselves aren't committed
+        isActive = session.inTransaction();
       }, opts?.transaction);
+
+      isCommitted = isActive;
     } catch (err) {
-      throw err;
-    } finally {
       await session.endSession();
+
+      // failing rollback subscribers don't hide the transaction's error
+      await this.eventManager
+        .rollbackTransaction(session)
+        .catch(() => undefined);
+
+      throw err;
     }
 
+    await session.endSession();
+
+    await (isCommitted
+      ? this.eventManager.commitTransaction(session)
+      : this.eventManager.rollbackTransaction(session));
+
     return result;
   }
 
+  /**
+   * Diffs the declared `@Index()` definitions against the existing indexes
+   * and creates (or drops) them.  Use `dryRun` to only get the plan.
+   */
+  async syncIndexes(options?: SyncIndexesOptions): Promise<IndexSyncPlan[]> {
+    return syncIndexes(this, options);
+  }
+
+  /**
+   * Applies the `$jsonSchema` generated from the metadata as the validator of
+   * every document's collection.  Use `dryRun` to only get the validators.
+   */
+  async syncValidators(
+    options?: SyncValidatorsOptions
+  ): Promise<ValidatorSyncPlan[]> {
+    return syncValidators(this, options);
+  }
+
+  /**
+   * Applies the pending migrations (up to `to`).  Use `dryRun` to only get
+   * the migrations that would run.
+   */
+  async migrate(options?: MigrateOptions): Promise<MigrationResult[]> {
+    return new Migrator(this, { migrations: this.migrations }).migrate(options);
+  }
+
+  /**
+   * Reverts the last applied migration (or the ones applied after `to`).
+   */
+  async rollback(options?: RollbackOptions): Promise<MigrationResult[]> {
+    return new Migrator(this, { migrations: this.migrations }).rollback(
+      options
+    );
+  }
+
+  /**
+   * Exports the models as JSON Schema draft 2020-12 `$defs` or OpenAPI 3.1
+   * component schemas.
+   */
+  exportSchemas(options?: ExportSchemasOptions): JSONSchema {
+    return exportSchemas(this, options);
+  }
+
+  protected getUnitOfWork(): UnitOfWork {
+    if (!this.unitOfWork) {
+      InternalError.throw(
+        'The unit of work is only available on forked managers, use "fork()"'
+      );
+    }
+
+    return this.unitOfWork;
+  }
+
   // -------------------------------------------------------------------------
   // Static Methods
   // -------------------------------------------------------------------------
@@ -252,7 +463,8 @@ export class DocumentManager {
         client,
         new DocumentMetadataFactory(opts.documents),
         new EventManager(opts.subscribers),
-        opts.container || defaultContainer
+        opts.container || defaultContainer,
+        opts.migrations
       );
 
       await manager.metadataFactory.build(manager);
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+import { run } from './run';
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
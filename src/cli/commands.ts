@@ -0,0 +1,383 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DocumentManager, DocumentManagerOptions } from '../DocumentManager';
+import { InternalError } from '../errors';
+import {
+  AbstractDocumentMetadata,
+  EmbeddedDocumentMetadata
+} from '../metadata';
+import { Migrator } from '../migrations';
+import {
+  createCollections,
+  ValidationAction,
+  ValidationLevel
+} from '../schema';
+import { isEqual } from '../utils';
+import { ParsedArgs } from './parseArgs';
+
+export interface CliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+export interface CommandContext {
+  /**
+   * The connected manager of commands that use the database.
+   */
+  manager?: DocumentManager;
+  options: DocumentManagerOptions;
+  args: ParsedArgs;
+  output: CliOutput;
+}
+
+export interface Command {
+  description: string;
+  usage?: string;
+  connect: boolean;
+
+  /**
+   * Runs the command and resolves the exit code, `--check` runs resolve `1`
+   * when the database drifted from the metadata.
+   */
+  run(ctx: CommandContext): Promise<number>;
+}
+
+export const commands: Record<string, Command> = {
+  'indexes:sync': {
+    description: 'Creates (and drops) indexes to match the @Index() metadata',
+    usage: '[--drop-unknown] [--dry-run] [--check]',
+    connect: true,
+    async run({ manager, args, output }) {
+      const check = !!args.flags.check;
+      const plans = await manager.syncIndexes({
+        dropUnknown: !!args.flags['drop-unknown'],
+        dryRun: check || !!args.flags['dry-run']
+      });
+
+      let drifted = false;
+      plans.forEach((plan) => {
+        const changes = [
+          ...plan.create.map((index) => `create ${index.name}`),
+          ...plan.drop.map((name) => `drop ${name}`)
+        ];
+
+        drifted = drifted || changes.length > 0;
+        output.log(
+          `${plan.database}.${plan.collection}: ${
+            changes.length ? changes.join(', ') : 'up to date'
+          }`
+        );
+      });
+
+      return check && drifted ? 1 : 0;
+    }
+  },
+
+  'validators:sync': {
+    description:
+      'Applies the $jsonSchema validators generated from the metadata',
+    usage:
+      '[--level strict|moderate|off] [--action error|warn] [--dry-run] [--check]',
+    connect: true,
+    async run({ manager, args, output }) {
+      const check = !!args.flags.check;
+      const dryRun = check || !!args.flags['dry-run'];
+      const options = {
+        level: args.flags.level as ValidationLevel,
+        action: args.flags.action as ValidationAction
+      };
+
+      // compared before applying them
+      const plans = await manager.syncValidators({ ...options, dryRun: true });
+      const changed: string[] = [];
+
+      for (const plan of plans) {
+        const [existing] = await manager.client
+          .db(plan.database)
+          .listCollections({ name: plan.collection }, { nameOnly: false })
+          .toArray();
+        const { validator, validationLevel, validationAction } =
+          existing?.options || {};
+
+        if (
+          !isEqual(validator, plan.validator) ||
+          validationLevel !== plan.validationLevel ||
+          validationAction !== plan.validationAction
+        ) {
+          changed.push(`${plan.database}.${plan.collection}`);
+        }
+      }
+
+      if (changed.length && !dryRun) {
+        await manager.syncValidators(options);
+      }
+
+      plans.forEach((plan) => {
+        const status = !changed.includes(`${plan.database}.${plan.collection}`)
+          ? 'up to date'
+          : dryRun
+          ? 'changed'
+          : 'applied';
+
+        output.log(`${plan.database}.${plan.collection}: ${status}`);
+      });
+
+      return check && changed.length ? 1 : 0;
+    }
+  },
+
+  'collections:create': {
+    description: 'Creates the missing collections of the documents',
+    usage: '[--dry-run] [--check]',
+    connect: true,
+    async run({ manager, args, output }) {
+      const check = !!args.flags.check;
+      const plans = await createCollections(manager, {
+        dryRun: check || !!args.flags['dry-run']
+      });
+
+      plans.forEach((plan) => {
+        output.log(
+          `${plan.database}.${plan.collection}: ${
+            plan.exists ? 'exists' : check ? 'missing' : 'created'
+          }`
+        );
+      });
+
+      return check && plans.some((plan) => !plan.exists) ? 1 : 0;
+    }
+  },
+
+  'migrate:up': {
+    description: 'Applies the pending migrations',
+    usage: '[--to <name>] [--dry-run] [--check]',
+    connect: true,
+    async run({ manager, options, args, output }) {
+      const check = !!args.flags.check;
+      const results = await createMigrator(manager, options).migrate({
+        to: args.flags.to as string,
+        dryRun: check || !!args.flags['dry-run']
+      });
+
+      results.forEach(({ name }) =>
+        output.log(`${check ? 'pending' : 'up'}: ${name}`)
+      );
+      if (!results.length) {
+        output.log('No pending migrations');
+      }
+
+      return check && results.length ? 1 : 0;
+    }
+  },
+
+  'migrate:down': {
+    description:
+      'Reverts the last applied migration (or the ones applied after --to)',
+    usage: '[--to <name>] [--dry-run]',
+    connect: true,
+    async run({ manager, options, args, output }) {
+      const results = await createMigrator(manager, options).rollback({
+        to: args.flags.to as string,
+        dryRun: !!args.flags['dry-run']
+      });
+
+      results.forEach(({ name }) => output.log(`down: ${name}`));
+      if (!results.length) {
+        output.log('No applied migrations');
+      }
+
+      return 0;
+    }
+  },
+
+  'migrate:status': {
+    description: 'Lists the applied & pending migrations',
+    usage: '[--check]',
+    connect: true,
+    async run({ manager, options, args, output }) {
+      const status = await createMigrator(manager, options).status();
+
+      status.forEach(({ name, appliedAt }) =>
+        output.log(
+          `${name}: ${
+            appliedAt ? `applied ${appliedAt.toISOString()}` : 'pending'
+          }`
+        )
+      );
+
+      return args.flags.check && status.some((s) => !s.appliedAt) ? 1 : 0;
+    }
+  },
+
+  'migrate:create': {
+    description: 'Creates a migration file in the migrations directory',
+    usage: '<name> [--dir <directory>] [--ext ts|js]',
+    connect: false,
+    async run({ options, args, output }) {
+      const [name] = args.positionals;
+      const dir =
+        (args.flags.dir as string) ||
+        (typeof options.migrations === 'string' ? options.migrations : null);
+
+      if (!name || !dir) {
+        InternalError.throw(
+          'Usage: migrate:create <name> (with --dir or a "migrations" directory in the config)'
+        );
+      }
+
+      const ext = args.flags.ext === 'js' ? 'js' : 'ts';
+      const timestamp = new Date()
+        .toISOString()
+        .replace(/\D/g, '')
+        .slice(0, 14);
+      const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const file = path.resolve(dir, `${timestamp}-${slug}.${ext}`);
+
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, migrationTemplates[ext], { flag: 'wx' });
+      output.log(`Created ${file}`);
+
+      return 0;
+    }
+  },
+
+  'metadata:dump': {
+    description: 'Prints the metadata of the documents as JSON',
+    connect: true,
+    async run({ manager, output }) {
+      output.log(JSON.stringify(dumpMetadata(manager), null, 2));
+
+      return 0;
+    }
+  }
+};
+
+const migrationTemplates = {
+  ts: `import { ClientSession } from 'mongodb';
+import { DocumentManager } from 'type-mongodb';
+
+export default {
+  async up(manager: DocumentManager, session: ClientSession): Promise<void> {
+    // ...
+  },
+
+  async down(manager: DocumentManager, session: ClientSession): Promise<void> {
+    // ...
+  }
+};
+`,
+  js: `module.exports = {
+  async up(manager, session) {
+    // ...
+  },
+
+  async down(manager, session) {
+    // ...
+  }
+};
+`
+};
+
+function createMigrator(
+  manager: DocumentManager,
+  options: DocumentManagerOptions
+): Migrator {
+  if (!options.migrations) {
+    InternalError.throw('The config does not have "migrations"');
+  }
+
+  return new Migrator(manager, { migrations: options.migrations });
+}
+
+/**
+ * Creates a JSON representation of the documents & the embedded documents
+ * they use.
+ */
+export function dumpMetadata(manager: DocumentManager): Record<string, any> {
+  const embedded = new Map<string, Record<string, any>>();
+
+  const dumpFields = (meta: AbstractDocumentMetadata) =>
+    Array.from(meta.fields.values()).map((field) => {
+      if (field.embeddedMetadata) {
+        collectEmbedded(field.embeddedMetadata);
+      }
+
+      return {
+        propertyName: field.propertyName,
+        fieldName: field.fieldName,
+        ...(field.type ? { type: field.type.name } : {}),
+        ...(field.embeddedMetadata
+          ? { embedded: field.embeddedMetadata.name }
+          : {}),
+        ...(field.isEmbeddedArray || field.typeIsArray ? { array: true } : {}),
+        ...(field.constraints
+          ? {
+              constraints: {
+                ...field.constraints,
+                pattern: field.constraints.pattern?.source
+              }
+            }
+          : {})
+      };
+    });
+
+  const dumpDiscriminator = (meta: AbstractDocumentMetadata) => {
+    const { discriminator } = meta;
+
+    if (!discriminator) {
+      return {};
+    }
+
+    discriminator.mapping.forEach((mapped) => {
+      if (mapped instanceof EmbeddedDocumentMetadata) {
+        collectEmbedded(mapped);
+      }
+    });
+
+    return {
+      discriminator: {
+        propertyName: discriminator.propertyName,
+        fieldName: discriminator.fieldName,
+        mapping: Object.fromEntries(
+          Array.from(discriminator.mapping.entries()).map(([value, mapped]) => [
+            value,
+            mapped.name
+          ])
+        )
+      }
+    };
+  };
+
+  const collectEmbedded = (meta: EmbeddedDocumentMetadata) => {
+    if (!embedded.has(meta.name)) {
+      // added before it's fields for recursive embedded documents
+      const dumped: Record<string, any> = { name: meta.name };
+      embedded.set(meta.name, dumped);
+      Object.assign(dumped, dumpDiscriminator(meta), {
+        fields: dumpFields(meta)
+      });
+    }
+  };
+
+  const documents = manager
+    .filterMetadata(() => true)
+    .map((meta) => ({
+      name: meta.name,
+      database: meta.db.databaseName,
+      collection: meta.collection.collectionName,
+      ...(meta.discriminatorRoot
+        ? {
+            discriminatorRoot: meta.discriminatorRoot.name,
+            discriminatorValue: meta.discriminatorValue
+          }
+        : dumpDiscriminator(meta)),
+      fields: dumpFields(meta),
+      indexes: meta.indexes.map(({ name, keys, options }) => ({
+        name,
+        keys,
+        options
+      }))
+    }));
+
+  return { documents, embeddedDocuments: Array.from(embedded.values()) };
+}
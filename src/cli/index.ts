@@ -0,0 +1,4 @@
+export * from './commands';
+export * from './loadConfig';
+export * from './parseArgs';
+export * from './run';
@@ -0,0 +1,27 @@
+import * as path from 'path';
+import { DocumentManagerOptions } from '../DocumentManager';
+import { InternalError } from '../errors';
+
+export const defaultConfigFile = 'type-mongodb.config.js';
+
+/**
+ * Loads the `DocumentManagerOptions` exported by the config module (or the
+ * function resolving them).
+ */
+export async function loadConfig(
+  file: string = defaultConfigFile
+): Promise<DocumentManagerOptions> {
+  const exported = await import(path.resolve(process.cwd(), file));
+  const value = exported.default || exported;
+  const options: DocumentManagerOptions = await Promise.resolve(
+    typeof value === 'function' ? value() : value
+  );
+
+  if (!options || !Array.isArray(options.documents)) {
+    InternalError.throw(
+      `The config "${file}" must export the DocumentManager options`
+    );
+  }
+
+  return options;
+}
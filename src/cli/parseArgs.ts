@@ -0,0 +1,37 @@
+export interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+// flags that are followed by their value, i.e. `--to 002-add-index`
+const valueFlags = ['config', 'to', 'dir', 'ext', 'level', 'action'];
+
+/**
+ * Parses `<command> [positionals] [--flag] [--flag value|--flag=value]`.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const args: ParsedArgs = { positionals: [], flags: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg.startsWith('--')) {
+      const [name, value] = arg.slice(2).split(/=(.*)/s);
+
+      if (typeof value !== 'undefined') {
+        args.flags[name] = value;
+      } else if (valueFlags.includes(name) && i + 1 < argv.length) {
+        args.flags[name] = argv[++i];
+      } else {
+        args.flags[name] = true;
+      }
+    } else if (!args.command) {
+      args.command = arg;
+    } else {
+      args.positionals.push(arg);
+    }
+  }
+
+  return args;
+}
@@ -0,0 +1,62 @@
+import { DocumentManager } from '../DocumentManager';
+import { CliOutput, commands } from './commands';
+import { defaultConfigFile, loadConfig } from './loadConfig';
+import { parseArgs } from './parseArgs';
+
+/**
+ * Runs the command of the arguments and resolves the exit code.
+ */
+export async function run(
+  argv: string[],
+  output: CliOutput = console
+): Promise<number> {
+  const args = parseArgs(argv);
+
+  if (!args.command || args.command === 'help' || args.flags.help) {
+    printHelp(output);
+
+    return 0;
+  }
+
+  const command = commands[args.command];
+
+  if (!command) {
+    output.error(`Unknown command "${args.command}"`);
+    printHelp(output);
+
+    return 2;
+  }
+
+  try {
+    const options = await loadConfig(args.flags.config as string);
+    const manager = command.connect
+      ? await DocumentManager.create(options)
+      : undefined;
+
+    try {
+      return await command.run({ manager, options, args, output });
+    } finally {
+      await manager?.close();
+    }
+  } catch (err) {
+    output.error(err?.message || String(err));
+
+    return 1;
+  }
+}
+
+function printHelp(output: CliOutput): void {
+  output.log(
+    [
+      'Usage: type-mongodb <command> [--config <file>]',
+      '',
+      `The config module exports the DocumentManager options (default: "${defaultConfigFile}").`,
+      '',
+      'Commands:',
+      ...Object.entries(commands).map(
+        ([name, { description, usage }]) =>
+          `  ${[name, usage].filter(Boolean).join(' ')}\n      ${description}`
+      )
+    ].join('\n')
+  );
+}
@@ -1,8 +1,13 @@
 import 'reflect-metadata';
+import { IndexDirection } from 'mongodb';
 import {
   DiscriminatorDefinition,
+  FieldConstraints,
   FieldDefinition,
-  ParentDefinition
+  IndexDefinition,
+  IndexOptions,
+  ParentDefinition,
+  Upcaster
 } from '../metadata';
 import { Constructor } from '../typings';
 import { Type } from '../types';
@@ -14,6 +19,24 @@ interface DocumentOptions {
   collection?: string;
   extensions?: Record<any, any>;
   repository?: () => Constructor;
+
+  /**
+   * The current schema version, written to every document.  Documents stored
+   * with older versions are upgraded by the `upcasters` when loaded.
+   */
+  schemaVersion?: number;
+
+  /**
+   * The field storing the schema version (default: `_schemaVersion`).
+   */
+  schemaVersionField?: string;
+
+  /**
+   * Upgrades raw documents from the keyed version to the next version, i.e.
+   * `{ 1: (doc) => ({ ...doc, fullName: doc.name }) }` upgrades version 1
+   * (or documents without a version) to version 2.
+   */
+  upcasters?: Record<number, Upcaster>;
 }
 
 export function Document(options: DocumentOptions = {}): ClassDecorator {
@@ -28,13 +51,25 @@ export function Document(options: DocumentOptions = {}): ClassDecorator {
   };
 }
 
-interface FieldOptions {
+interface FieldOptions extends FieldConstraints {
   name?: string;
   type?: Constructor<Type> | Type;
   extensions?: Record<any, any>;
   create?: boolean;
 }
 
+const constraintOptions: (keyof FieldConstraints)[] = [
+  'required',
+  'nullable',
+  'min',
+  'max',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'enum',
+  'validate'
+];
+
 export function Field(options?: FieldOptions): PropertyDecorator;
 export function Field(
   embedded?: () => any,
@@ -69,23 +104,102 @@ export function Id(options: FieldOptions = {}): PropertyDecorator {
   };
 }
 
+/**
+ * Marks the integer field used for optimistic locking.  The version starts at
+ * `1` and is incremented by every update.
+ */
+export function Version(options: FieldOptions = {}): PropertyDecorator {
+  return (target: any, field: string) => {
+    addFieldDefinition(target, field, { ...options, isVersion: true });
+  };
+}
+
+/**
+ * Marks the date field used for soft deletes.  Deleted documents have the
+ * field set and are excluded from queries.
+ */
+export function DeletedAt(options: FieldOptions = {}): PropertyDecorator {
+  return (target: any, field: string) => {
+    addFieldDefinition(target, field, { ...options, isDeletedAt: true });
+  };
+}
+
+/**
+ * Marks the date field set when the document is inserted.  Replacements keep
+ * the stored date.
+ */
+export function CreatedAt(options: FieldOptions = {}): PropertyDecorator {
+  return (target: any, field: string) => {
+    addFieldDefinition(target, field, { ...options, isCreatedAt: true });
+  };
+}
+
+/**
+ * Marks the date field set when the document is inserted and every time it's
+ * updated.
+ */
+export function UpdatedAt(options: FieldOptions = {}): PropertyDecorator {
+  return (target: any, field: string) => {
+    addFieldDefinition(target, field, { ...options, isUpdatedAt: true });
+  };
+}
+
+interface ReferenceOptions {
+  name?: string;
+  extensions?: Record<any, any>;
+}
+
+/**
+ * Maps a reference to another `@Document()`.  Only the referenced document's
+ * `_id` is stored, i.e.:
+ *   `@Reference(() => User)` or `@Reference(() => [User])`
+ */
+export function Reference(
+  reference: () => any,
+  options: ReferenceOptions = {}
+): PropertyDecorator {
+  return (target: any, field: string) => {
+    addFieldDefinition(target, field, {
+      ...options,
+      isReference: true,
+      reference
+    });
+  };
+}
+
 function addFieldDefinition(
   target: any,
   field: string,
-  options: FieldOptions & { isId?: boolean },
+  options: FieldOptions & {
+    isId?: boolean;
+    isVersion?: boolean;
+    isDeletedAt?: boolean;
+    isCreatedAt?: boolean;
+    isUpdatedAt?: boolean;
+    isReference?: boolean;
+    reference?: () => any;
+  },
   embedded?: () => any
 ) {
+  const { constraints, ...rest } = splitConstraints(options);
+
   const def: FieldDefinition = {
-    ...options,
+    ...rest,
     DocumentClass: target.constructor,
     propertyName: field,
     fieldName: options.name || field,
     isId: options.isId === true,
+    isReference: options.isReference === true,
+    isVersion: options.isVersion === true,
+    isDeletedAt: options.isDeletedAt === true,
+    isCreatedAt: options.isCreatedAt === true,
+    isUpdatedAt: options.isUpdatedAt === true,
     isEmbedded: typeof embedded !== 'undefined',
     embedded,
     ...fieldToType(target, field, options.type),
     shouldCreateJSValue:
-      typeof options.create === 'boolean' ? options.create : false
+      typeof options.create === 'boolean' ? options.create : false,
+    constraints
   };
 
   if (def.type && def.typeIsArray && def.shouldCreateJSValue) {
@@ -107,6 +221,104 @@ function addFieldDefinition(
   }
 }
 
+function splitConstraints<T extends FieldConstraints>(
+  options: T
+): Omit<T, keyof FieldConstraints> & { constraints?: FieldConstraints } {
+  const rest = { ...options };
+  const constraints: FieldConstraints = {};
+
+  constraintOptions.forEach((option) => {
+    if (option in rest) {
+      (constraints as Record<string, any>)[option] = rest[option];
+      delete rest[option];
+    }
+  });
+
+  return Object.keys(constraints).length ? { ...rest, constraints } : rest;
+}
+
+export interface PropertyIndexOptions extends IndexOptions {
+  direction?: IndexDirection;
+}
+
+/**
+ * Declares an index.
+ *
+ * On a property, the index is created for that property:
+ *   `@Index({ unique: true })`
+ *
+ * On a class, the keys are property paths (including embedded documents):
+ *   `@Index({ name: 1, 'address.city': -1 })`
+ */
+export function Index(options?: PropertyIndexOptions): PropertyDecorator;
+export function Index(
+  keys: Record<string, IndexDirection>,
+  options?: IndexOptions
+): ClassDecorator;
+export function Index(
+  keysOrOptions?: Record<string, IndexDirection> | PropertyIndexOptions,
+  options?: IndexOptions
+): ClassDecorator & PropertyDecorator {
+  return ((target: any, propertyName?: string) => {
+    if (typeof propertyName === 'undefined') {
+      addIndexDefinition({
+        DocumentClass: target,
+        keys: (keysOrOptions || {}) as Record<string, IndexDirection>,
+        options: options || {}
+      });
+
+      return;
+    }
+
+    const { direction, ...opts } = (keysOrOptions ||
+      {}) as PropertyIndexOptions;
+
+    addIndexDefinition({
+      DocumentClass: target.constructor,
+      keys: { [propertyName]: direction || 1 },
+      options: opts
+    });
+  }) as ClassDecorator & PropertyDecorator;
+}
+
+/**
+ * Declares a unique index.  Works just like `@Index()`.
+ */
+export function Unique(options?: PropertyIndexOptions): PropertyDecorator;
+export function Unique(
+  keys: Record<string, IndexDirection>,
+  options?: IndexOptions
+): ClassDecorator;
+export function Unique(
+  keysOrOptions?: Record<string, IndexDirection> | PropertyIndexOptions,
+  options?: IndexOptions
+): ClassDecorator & PropertyDecorator {
+  return ((target: any, propertyName?: string) => {
+    if (typeof propertyName === 'undefined') {
+      Index(keysOrOptions as Record<string, IndexDirection>, {
+        ...(options || {}),
+        unique: true
+      })(target);
+    } else {
+      Index({ ...(keysOrOptions || {}), unique: true })(target, propertyName);
+    }
+  }) as ClassDecorator & PropertyDecorator;
+}
+
+function addIndexDefinition(def: IndexDefinition) {
+  if (!Object.keys(def.keys).length) {
+    InternalError.throw(
+      `@Index() on "${def.DocumentClass.name}" must have at least one key`
+    );
+  }
+
+  if (definitionStorage.indexes.has(def.DocumentClass)) {
+    definitionStorage.indexes.get(def.DocumentClass).push(def);
+  } else {
+    definitionStorage.indexes.set(def.DocumentClass, [def]);
+  }
+}
+
 export function Parent(): PropertyDecorator {
   return (target: any, propertyName: string) => {
     const meta: ParentDefinition = {
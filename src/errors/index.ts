@@ -1,5 +1,6 @@
 import { Filter } from 'mongodb';
-import { DocumentMetadata } from '../metadata';
+import { AbstractDocumentMetadata, DocumentMetadata } from '../metadata';
+import { ValidationFailure } from '../utils';
 import { Mode, Type } from '../types';
 
 export class InternalError extends Error {
@@ -80,4 +81,125 @@ export class ValidationError extends Error {
       filter
     });
   }
+
+  static invalidFields(
+    meta: AbstractDocumentMetadata,
+    failures: ValidationFailure[]
+  ) {
+    this.throw(`Invalid "${meta.name}"`, {
+      code: 'INVALID_FIELDS',
+      paths: Array.from(new Set(failures.map((failure) => failure.path))),
+      failures: failures.map(({ path, constraint, message }) => ({
+        path,
+        constraint,
+        message
+      }))
+    });
+  }
+}
+
+export class OptimisticLockError extends Error {
+  public name: string = 'OptimisticLockError';
+
+  constructor(
+    message: string,
+    public metadata?: Record<string, any>,
+    public internalMetadata?: Record<string, any>
+  ) {
+    super(message);
+    Error.captureStackTrace(this, this.constructor);
+
+    this.name = this.constructor.name;
+    this.metadata = this.metadata || {};
+    this.internalMetadata = this.internalMetadata || {};
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      metadata: this.metadata
+    };
+  }
+
+  static throw(
+    message: string,
+    metadata?: Record<string, any>,
+    internalMetadata?: Record<string, any>
+  ): void {
+    throw new OptimisticLockError(message, metadata, internalMetadata);
+  }
+
+  static versionMismatch(
+    meta: DocumentMetadata,
+    filter: Filter<any>,
+    expectedVersion: number
+  ) {
+    this.throw(
+      `"${meta.name}" was modified or removed since version ${expectedVersion}`,
+      {
+        code: 'VERSION_MISMATCH',
+        filter,
+        expectedVersion
+      }
+    );
+  }
+}
+
+export class MigrationError extends Error {
+  public name: string = 'MigrationError';
+
+  constructor(
+    message: string,
+    public metadata?: Record<string, any>,
+    public internalMetadata?: Record<string, any>
+  ) {
+    super(message);
+    Error.captureStackTrace(this, this.constructor);
+
+    this.name = this.constructor.name;
+    this.metadata = this.metadata || {};
+    this.internalMetadata = this.internalMetadata || {};
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      metadata: this.metadata
+    };
+  }
+
+  static throw(
+    message: string,
+    metadata?: Record<string, any>,
+    internalMetadata?: Record<string, any>
+  ): void {
+    throw new MigrationError(message, metadata, internalMetadata);
+  }
+
+  static locked() {
+    this.throw('Migrations are already running', { code: 'LOCKED' });
+  }
+
+  static notFound(name: string) {
+    this.throw(`Migration "${name}" not found`, {
+      code: 'MIGRATION_NOT_FOUND',
+      name
+    });
+  }
+
+  static duplicate(name: string) {
+    this.throw(`Migration "${name}" is defined more than once`, {
+      code: 'DUPLICATE_MIGRATION',
+      name
+    });
+  }
+
+  static irreversible(name: string) {
+    this.throw(`Migration "${name}" can't be rolled back`, {
+      code: 'IRREVERSIBLE_MIGRATION',
+      name
+    });
+  }
 }
@@ -8,11 +8,78 @@ import {
   InsertManyEvent,
   EventSubscriberMethods
 } from './interfaces';
+import { ClientSession } from 'mongodb';
 import { Constructor } from '../typings';
 import { DocumentManager } from '../DocumentManager';
 
 type EventSubscribers = Map<EventSubscriberMethods, EventSubscriber[]>;
 
+type TransactionEvents = Map<
+  EventSubscriberMethods,
+  [commit: EventSubscriberMethods, rollback: EventSubscriberMethods]
+>;
+
+/**
+ * The events dispatched once the transaction of an "after" event's write
+ * committed or rolled back.
+ */
+const transactionEvents: TransactionEvents = new Map([
+  [
+    EventSubscriberMethods.AfterInsert,
+    [
+      EventSubscriberMethods.AfterInsertCommit,
+      EventSubscriberMethods.AfterInsertRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterUpdate,
+    [
+      EventSubscriberMethods.AfterUpdateCommit,
+      EventSubscriberMethods.AfterUpdateRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterDelete,
+    [
+      EventSubscriberMethods.AfterDeleteCommit,
+      EventSubscriberMethods.AfterDeleteRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterReplace,
+    [
+      EventSubscriberMethods.AfterReplaceCommit,
+      EventSubscriberMethods.AfterReplaceRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterInsertMany,
+    [
+      EventSubscriberMethods.AfterInsertManyCommit,
+      EventSubscriberMethods.AfterInsertManyRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterUpdateMany,
+    [
+      EventSubscriberMethods.AfterUpdateManyCommit,
+      EventSubscriberMethods.AfterUpdateManyRollback
+    ]
+  ],
+  [
+    EventSubscriberMethods.AfterDeleteMany,
+    [
+      EventSubscriberMethods.AfterDeleteManyCommit,
+      EventSubscriberMethods.AfterDeleteManyRollback
+    ]
+  ]
+]);
+
+interface QueuedEvent {
+  after: EventSubscriberMethods;
+  e: Events;
+}
+
 /**
  * EventManager takes event subscribers, determines what events to be
  * triggered on specific documents, etc.
@@ -21,6 +88,7 @@ export class EventManager {
   protected subscribers: EventSubscriber[] = [];
   protected documentsWithSubscribers: Map<Constructor, EventSubscribers> =
     new Map();
+  protected transactions: WeakMap<ClientSession, QueuedEvent[]> = new WeakMap();
 
   constructor(subscribers: EventSubscriber[]) {
     this.subscribers = subscribers || [];
@@ -122,11 +190,70 @@ export class EventManager {
   }
 
   /**
-   * Dispatches the all the subscribed events for the document.
+   * Dispatches the all the subscribed events for the document.  "After"
+   * events of writes in a transaction (see `beginTransaction()`) queue their
+   * commit & rollback events until the transaction settled, otherwise the
+   * commit events are dispatched right away.
    */
   async dispatch<T = any>(
     type: EventSubscriberMethods,
     e: Events<T>
+  ): Promise<void> {
+    await this.dispatchToSubscribers(type, e);
+
+    if (!transactionEvents.has(type)) {
+      return;
+    }
+
+    const queue = e.session && this.transactions.get(e.session);
+    if (queue && e.session.inTransaction()) {
+      queue.push({ after: type, e });
+    } else {
+      await this.dispatchToSubscribers(transactionEvents.get(type)[0], e);
+    }
+  }
+
+  /**
+   * Starts queueing the commit & rollback events of writes in the session's
+   * transaction.
+   */
+  beginTransaction(session: ClientSession): void {
+    this.transactions.set(session, []);
+  }
+
+  /**
+   * Dispatches the queued commit events of the session's transaction.
+   */
+  async commitTransaction(session: ClientSession): Promise<void> {
+    await this.settleTransaction(session, 0);
+  }
+
+  /**
+   * Dispatches the queued rollback events of the session's transaction.
+   */
+  async rollbackTransaction(session: ClientSession): Promise<void> {
+    await this.settleTransaction(session, 1);
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  protected async settleTransaction(
+    session: ClientSession,
+    index: 0 | 1
+  ): Promise<void> {
+    const queue = this.transactions.get(session) || [];
+    this.transactions.delete(session);
+
+    for (const { after, e } of queue) {
+      await this.dispatchToSubscribers(transactionEvents.get(after)[index], e);
+    }
+  }
+
+  protected async dispatchToSubscribers<T = any>(
+    type: EventSubscriberMethods,
+    e: Events<T>
   ): Promise<void> {
     if (!this.documentsWithSubscribers.has(e.meta.DocumentClass)) {
       return;
@@ -147,10 +274,6 @@ export class EventManager {
     }
   }
 
-  // -------------------------------------------------------------------------
-  // Protected Methods
-  // -------------------------------------------------------------------------
-
   /**
    * Attaches the subscriber's defined methods to the document.
    */
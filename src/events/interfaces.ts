@@ -1,9 +1,14 @@
-import { Filter, UpdateFilter } from 'mongodb';
+import { ClientSession, Filter, UpdateFilter } from 'mongodb';
 import { DocumentMetadata } from '../metadata';
 import { DocumentManager } from '../DocumentManager';
 
 export interface Event<Model, Document> {
   meta: DocumentMetadata<Model, Document>;
+
+  /**
+   * The session of the write, if any.
+   */
+  session?: ClientSession;
 }
 
 export interface InsertEvent<Model = any, Document = any>
@@ -25,6 +30,11 @@ export interface UpdateEvent<Model = any, Document = any>
 export interface DeleteEvent<Model = any, Document = any>
   extends Event<Model, Document> {
   filter: Filter<Document>;
+
+  /**
+   * Set when the documents are soft deleted (see `@DeletedAt()`).
+   */
+  soft?: boolean;
 }
 
 export interface ReplaceEvent<Model = any, Document = any>
@@ -57,7 +67,23 @@ export enum EventSubscriberMethods {
   BeforeUpdateMany = 'beforeUpdateMany',
   AfterUpdateMany = 'afterUpdateMany',
   BeforeDeleteMany = 'beforeDeleteMany',
-  AfterDeleteMany = 'afterDeleteMany'
+  AfterDeleteMany = 'afterDeleteMany',
+
+  // events once the transaction of the write committed or rolled back
+  AfterInsertCommit = 'afterInsertCommit',
+  AfterInsertRollback = 'afterInsertRollback',
+  AfterUpdateCommit = 'afterUpdateCommit',
+  AfterUpdateRollback = 'afterUpdateRollback',
+  AfterDeleteCommit = 'afterDeleteCommit',
+  AfterDeleteRollback = 'afterDeleteRollback',
+  AfterReplaceCommit = 'afterReplaceCommit',
+  AfterReplaceRollback = 'afterReplaceRollback',
+  AfterInsertManyCommit = 'afterInsertManyCommit',
+  AfterInsertManyRollback = 'afterInsertManyRollback',
+  AfterUpdateManyCommit = 'afterUpdateManyCommit',
+  AfterUpdateManyRollback = 'afterUpdateManyRollback',
+  AfterDeleteManyCommit = 'afterDeleteManyCommit',
+  AfterDeleteManyRollback = 'afterDeleteManyRollback'
 }
 
 export interface EventSubscriber<Model = any, Document = any> {
@@ -80,4 +106,29 @@ export interface EventSubscriber<Model = any, Document = any> {
   afterUpdateMany?(e: UpdateEvent<Model, Document>): Promise<void> | void;
   beforeDeleteMany?(e: DeleteEvent<Model, Document>): Promise<void> | void;
   afterDeleteMany?(e: DeleteEvent<Model, Document>): Promise<void> | void;
+
+  // events once the transaction of the write committed or rolled back, writes
+  // outside of transactions are committed right away
+  afterInsertCommit?(e: InsertEvent<Model, Document>): Promise<void> | void;
+  afterInsertRollback?(e: InsertEvent<Model, Document>): Promise<void> | void;
+  afterUpdateCommit?(e: UpdateEvent<Model, Document>): Promise<void> | void;
+  afterUpdateRollback?(e: UpdateEvent<Model, Document>): Promise<void> | void;
+  afterDeleteCommit?(e: DeleteEvent<Model, Document>): Promise<void> | void;
+  afterDeleteRollback?(e: DeleteEvent<Model, Document>): Promise<void> | void;
+  afterReplaceCommit?(e: ReplaceEvent<Model, Document>): Promise<void> | void;
+  afterReplaceRollback?(e: ReplaceEvent<Model, Document>): Promise<void> | void;
+  afterInsertManyCommit?(
+    e: InsertManyEvent<Model, Document>
+  ): Promise<void> | void;
+  afterInsertManyRollback?(
+    e: InsertManyEvent<Model, Document>
+  ): Promise<void> | void;
+  afterUpdateManyCommit?(e: UpdateEvent<Model, Document>): Promise<void> | void;
+  afterUpdateManyRollback?(
+    e: UpdateEvent<Model, Document>
+  ): Promise<void> | void;
+  afterDeleteManyCommit?(e: DeleteEvent<Model, Document>): Promise<void> | void;
+  afterDeleteManyRollback?(
+    e: DeleteEvent<Model, Document>
+  ): Promise<void> | void;
 }
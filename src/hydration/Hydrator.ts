@@ -3,6 +3,9 @@ import { HydratorFactory } from './HydratorFactory';
 import { AbstractDocumentMetadata, FieldMetadata } from '../metadata';
 import { InternalError } from '../errors';
 import { PartialDeep, WithDocumentFields } from '../typings';
+import { markLoaded, setSnapshot } from './snapshots';
+import { toJSONValue } from '../utils/json';
+import { getDesignType } from '../utils/reflection';
 
 // simple helper to create unique variable names
 let variableCount: number = 0;
@@ -12,12 +15,21 @@ function reserveVariable(name: string): string {
 
 export type CompiledHydrator = (target: any, source: any, parent?: any) => any;
 
+export interface FromDBOptions {
+  /**
+   * Records the model's `toDB` document so changes can be computed later.
+   */
+  snapshot?: boolean;
+}
+
 interface CompiledHydrators {
   toDB?: CompiledHydrator;
   fromDB?: CompiledHydrator;
   init?: CompiledHydrator;
   merge?: CompiledHydrator;
   toObject?: CompiledHydrator;
+  toJSON?: CompiledHydrator;
+  fromJSON?: CompiledHydrator;
 }
 
 export class Hydrator<Model, Document = WithDocumentFields<Model>> {
@@ -39,7 +51,9 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
       fromDB: this.compileHydrator('fromDB', true, false),
       init: this.compileHydrator('init', false, false),
       merge: this.compileHydrator('merge', false, false),
-      toObject: this.compileHydrator('toObject', false, false)
+      toObject: this.compileHydrator('toObject', false, false),
+      toJSON: this.compileHydrator('toJSON', false, false),
+      fromJSON: this.compileHydrator('fromJSON', false, false)
     };
   }
 
@@ -91,7 +105,11 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
     return this.compiled.merge(this.prepare(model), props, parent);
   }
 
-  public fromDB(doc?: Record<string, any>, parent?: any): Model {
+  public fromDB(
+    doc?: Record<string, any>,
+    parent?: any,
+    options?: FromDBOptions
+  ): Model {
     this.assertIsCompiled();
 
     // don't attempt transforming invalid documents into models
@@ -103,15 +121,27 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
       const { fieldName, mapping } = this.meta.discriminator;
 
       return doc[fieldName] && mapping.has(doc[fieldName])
-        ? mapping.get(doc[fieldName]).hydrator.fromDB(doc, parent)
+        ? mapping.get(doc[fieldName]).hydrator.fromDB(doc, parent, options)
         : undefined;
     }
 
-    return this.compiled.fromDB(
+    // documents stored with older schema versions are upgraded first
+    const isStale = this.meta.isStale(doc);
+    const model = this.compiled.fromDB(
       Object.create(this.meta.DocumentClass.prototype),
-      doc,
+      isStale ? this.meta.upcast(doc) : doc,
       parent
     );
+
+    // stale models are diffed against the stored document, so saving them
+    // rewrites the document with the current schema version
+    if (model && options?.snapshot) {
+      setSnapshot(model, isStale ? doc : this.meta.toDB(model));
+    } else if (model) {
+      markLoaded(model);
+    }
+
+    return model;
   }
 
   public toDB(model: Model): OptionalUnlessRequiredId<Document> {
@@ -149,6 +179,54 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
     return this.compiled.toObject({}, model, parent);
   }
 
+  /**
+   * Converts the model to a plain object of JSON values (without the parent
+   * references of embedded documents).
+   */
+  public toJSON(model: Model): Record<string, any> {
+    this.assertIsCompiled();
+
+    if (typeof model !== 'object' || model === null) {
+      return model;
+    }
+
+    if (this.meta.discriminator) {
+      const { propertyName, mapping } = this.meta.discriminator;
+
+      return model[propertyName] && mapping.has(model[propertyName])
+        ? mapping.get(model[propertyName]).hydrator.toJSON(model)
+        : undefined;
+    }
+
+    return this.compiled.toJSON({}, model);
+  }
+
+  /**
+   * Creates a model from it's JSON representation.
+   */
+  public fromJSON(json: Record<string, any>, parent?: any): Model {
+    this.assertIsCompiled();
+
+    // don't attempt transforming invalid values into models
+    if (typeof json !== 'object' || json === null) {
+      return json as Model;
+    }
+
+    if (this.meta.discriminator) {
+      const { propertyName, mapping } = this.meta.discriminator;
+
+      return json[propertyName] && mapping.has(json[propertyName])
+        ? mapping.get(json[propertyName]).hydrator.fromJSON(json, parent)
+        : undefined;
+    }
+
+    return this.compiled.fromJSON(
+      this.prepare(new this.meta.DocumentClass()),
+      json,
+      parent
+    );
+  }
+
   private compileHydrator(
     type: keyof CompiledHydrators,
     isFromDB: boolean,
@@ -170,6 +248,27 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
 
       // use raw value if field does not have a "type"
       if (!fieldMetadata.type) {
+        if (type === 'toJSON') {
+          const toJSONVar = reserveVariable('toJSONValue');
+          context.set(toJSONVar, toJSONValue);
+
+          return `
+            if (typeof source["${accessor}"] !== 'undefined') {
+              target["${setter}"] = ${toJSONVar}(source["${accessor}"]);
+            }
+          `;
+        }
+
+        if (type === 'fromJSON' && getDesignType(fieldMetadata) === Date) {
+          return `
+            if (typeof source["${accessor}"] === 'string') {
+              target["${setter}"] = new Date(source["${accessor}"]);
+            } else if (typeof source["${accessor}"] !== 'undefined') {
+              target["${setter}"] = source["${accessor}"];
+            }
+          `;
+        }
+
         return `
           if (typeof source["${accessor}"] !== 'undefined') {
             target["${setter}"] = source["${accessor}"];
@@ -232,6 +331,16 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
             ${createJSValueCode(`source["${accessor}"]`)}
             ${setTargetCode()}
           `;
+        case 'toJSON':
+          return `
+            ${createJSValueCode(`source["${accessor}"]`)}
+            ${setTargetCode('convertToJSONValue')}
+          `;
+        case 'fromJSON':
+          return `
+            ${createJSValueCode(`source["${accessor}"]`)}
+            ${setTargetCode('convertFromJSONValue')}
+          `;
       }
     };
 
@@ -276,6 +385,10 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
             return `${hydratorVar}.init(${source}, target)`;
           case 'toObject':
             return `${hydratorVar}.toObject(${source}, target)`;
+          case 'toJSON':
+            return `${hydratorVar}.toJSON(${source})`;
+          case 'fromJSON':
+            return `${hydratorVar}.fromJSON(${source}, target)`;
         }
       };
 
@@ -320,8 +433,8 @@ export class Hydrator<Model, Document = WithDocumentFields<Model>> {
         }
         
         ${
-          /* parent mapping */
-          !isToDB && this.meta.parent
+          /* parent mapping (JSON can't be circular) */
+          !isToDB && type !== 'toJSON' && this.meta.parent
             ? `        target["${this.meta.parent.propertyName}"] = parent;`
             : ''
         }
@@ -17,6 +17,12 @@ export class HydratorFactory {
     return hydrators.get(DocumentClass);
   }
 
+  static get<Model = any>(
+    DocumentClass: Constructor<Model>
+  ): Hydrator<Model> | undefined {
+    return hydrators.get(DocumentClass);
+  }
+
   static compile(): void {
     hydrators.forEach((hydrator) => hydrator.compile());
   }
@@ -1,2 +1,4 @@
 export * from './Hydrator';
 export * from './HydratorFactory';
+export * from './snapshots';
+export * from './json';
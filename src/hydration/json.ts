@@ -0,0 +1,40 @@
+import { Constructor } from '../typings';
+import { InternalError } from '../errors';
+import { HydratorFactory } from './HydratorFactory';
+import { Hydrator } from './Hydrator';
+
+/**
+ * Converts a model to a plain object of JSON values, i.e. from the model's
+ * own `toJSON()` method:
+ *
+ *   toJSON() {
+ *     return toJSON(this);
+ *   }
+ */
+export function toJSON<Model extends object>(
+  model: Model
+): Record<string, any> {
+  return getHydrator(model.constructor as Constructor<Model>).toJSON(model);
+}
+
+/**
+ * Creates a model from it's JSON representation.
+ */
+export function fromJSON<Model>(
+  DocumentClass: Constructor<Model>,
+  json: Record<string, any>
+): Model {
+  return getHydrator(DocumentClass).fromJSON(json);
+}
+
+function getHydrator<Model>(
+  DocumentClass: Constructor<Model>
+): Hydrator<Model> {
+  const hydrator = HydratorFactory.get(DocumentClass);
+
+  if (!hydrator) {
+    InternalError.throw(`Missing metadata for "${DocumentClass.name}"`);
+  }
+
+  return hydrator;
+}
@@ -0,0 +1,54 @@
+import { isPlainObject } from '../utils/isPlainObject';
+
+const snapshots = new WeakMap<object, Record<string, any>>();
+const loaded = new WeakSet<object>();
+
+/**
+ * Gets the `toDB` document of the model when it was loaded (or last saved).
+ */
+export function getSnapshot(model: any): Record<string, any> | undefined {
+  return model && typeof model === 'object' ? snapshots.get(model) : undefined;
+}
+
+export function setSnapshot(model: any, doc: Record<string, any>): void {
+  snapshots.set(model, copy(doc));
+}
+
+export function clearSnapshot(model: any): void {
+  snapshots.delete(model);
+}
+
+/**
+ * Marks models loaded without a snapshot, so `save()` doesn't insert them.
+ */
+export function markLoaded(model: any): void {
+  loaded.add(model);
+}
+
+export function isLoaded(model: any): boolean {
+  return model && typeof model === 'object' ? loaded.has(model) : false;
+}
+
+/**
+ * Fields without types are copied by reference to documents, so arrays,
+ * objects & dates are copied to keep in place changes out of the snapshot.
+ */
+function copy(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(copy);
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+
+  if (isPlainObject(value)) {
+    return Object.keys(value).reduce((copied, key) => {
+      copied[key] = copy(value[key]);
+
+      return copied;
+    }, {});
+  }
+
+  return value;
+}
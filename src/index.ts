@@ -4,7 +4,13 @@ export * from './metadata/DocumentMetadata';
 export * from './metadata/EmbeddedDocumentMetadata';
 export * from './errors';
 export * from './events';
+export * from './migrations';
+export * from './hydration/json';
+export * from './outbox';
 export * from './repository';
+export * from './schema';
+export * from './testing';
 export * from './types';
 export * from './typings';
+export * from './unitofwork';
 export * from './utils/testUtils';
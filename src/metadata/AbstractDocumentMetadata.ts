@@ -3,10 +3,17 @@ import { Constructor, PartialDeep, WithDocumentFields } from '../typings';
 import { FieldMetadata } from './FieldMetadata';
 import { ParentDefinition } from './definitions';
 import { DiscriminatorMetadata } from './DiscriminatorMetadata';
-import { InternalError } from '../errors';
-import { Hydrator, HydratorFactory } from '../hydration';
+import { InternalError, ValidationError } from '../errors';
+import { FromDBOptions, Hydrator, HydratorFactory } from '../hydration';
 import { DocumentManager } from '../DocumentManager';
-import { cast, CastInput, CastType } from '../utils';
+import {
+  cast,
+  CastInput,
+  CastType,
+  validate,
+  validateUpdate,
+  ValidationFailure
+} from '../utils';
 
 export type FieldsMetadata = Map<string, FieldMetadata>;
 
@@ -87,6 +94,20 @@ export abstract class AbstractDocumentMetadata<
     return this.hydrator.toObject(model);
   }
 
+  /**
+   * Converts the model to a plain object of JSON values.
+   */
+  toJSON(model: Model): Record<string, any> {
+    return this.hydrator.toJSON(model);
+  }
+
+  /**
+   * Creates a model from it's JSON representation.
+   */
+  fromJSON(json: Record<string, any>): Model {
+    return this.hydrator.fromJSON(json);
+  }
+
   /**
    * Converts the model fields to a mongodb document.
    */
@@ -98,11 +119,27 @@ export abstract class AbstractDocumentMetadata<
     return this.hydrator.toDB(model);
   }
 
+  /**
+   * Checks if the document was stored with an older schema version, only
+   * documents are versioned.
+   */
+  // eslint-disable-next-line
+  isStale(_doc: Record<string, any>): boolean {
+    return false;
+  }
+
+  /**
+   * Upgrades stale documents to the current schema version.
+   */
+  upcast(doc: Record<string, any>): Record<string, any> {
+    return doc;
+  }
+
   /**
    * Creates a model from a document.
    */
-  fromDB(doc: Record<string, any>): Model {
-    return this.hydrator.fromDB(doc);
+  fromDB(doc: Record<string, any>, options?: FromDBOptions): Model {
+    return this.hydrator.fromDB(doc, undefined, options);
   }
 
   /**
@@ -111,4 +148,25 @@ export abstract class AbstractDocumentMetadata<
   cast<I extends CastInput<Model>>(input: I, type: CastType): I {
     return cast(this, input, type);
   }
+
+  /**
+   * Checks the field constraints of the model, and throws a `ValidationError`
+   * listing every failure.
+   */
+  validate(model: Model): void {
+    this.failIfInvalid(validate(this, model));
+  }
+
+  /**
+   * Checks the field constraints of the update's `$set` values.
+   */
+  validateUpdate(update: CastInput<Model>): void {
+    this.failIfInvalid(validateUpdate(this, update));
+  }
+
+  protected failIfInvalid(failures: ValidationFailure[]): void {
+    if (failures.length) {
+      ValidationError.invalidFields(this, failures);
+    }
+  }
 }
@@ -1,11 +1,16 @@
-import { Collection, Db, MongoClient } from 'mongodb';
-import { Constructor, WithDocumentFields } from '../typings';
+import { Collection, Db, MongoClient, OptionalUnlessRequiredId } from 'mongodb';
+import { Constructor, PartialDeep, WithDocumentFields } from '../typings';
 import {
   AbstractDocumentMetadata,
   FieldsMetadata
 } from './AbstractDocumentMetadata';
+import { IndexMetadata } from './IndexMetadata';
+import { DiscriminatorMetadata } from './DiscriminatorMetadata';
 import { Repository } from '../repository';
 import { DocumentManager } from '../DocumentManager';
+import { FieldMetadata } from './FieldMetadata';
+import { Upcaster } from './definitions';
+import { InternalError } from '../errors';
 
 export interface DocumentMetadataOpts<Model, Document> {
   DocumentClass: Constructor<Model>;
@@ -15,7 +20,14 @@ export interface DocumentMetadataOpts<Model, Document> {
   db: Db;
   collection: Collection<Document>;
   repository: Repository<Model, Document>;
+  indexes?: IndexMetadata<Model>[];
+  discriminator?: DiscriminatorMetadata;
+  discriminatorValue?: string;
+  discriminatorRoot?: DocumentMetadata;
   extensions?: Record<any, any>;
+  schemaVersion?: number;
+  schemaVersionField?: string;
+  upcasters?: Record<number, Upcaster>;
 }
 
 /**
@@ -31,18 +43,189 @@ export class DocumentMetadata<
   public readonly collection: Collection<Document>;
   public readonly extensions: Record<any, any>;
   public readonly repository: Repository<Model, Document>;
+  public readonly indexes: IndexMetadata<Model>[];
+  public readonly versionField?: FieldMetadata;
+  public readonly deletedAtField?: FieldMetadata;
+  public readonly createdAtField?: FieldMetadata;
+  public readonly updatedAtField?: FieldMetadata;
+
+  /**
+   * Set when the document is mapped by a root `@Discriminator()` document and
+   * shares it's collection.
+   */
+  public readonly discriminatorValue?: string;
+  public readonly discriminatorRoot?: DocumentMetadata;
+
+  /**
+   * Set when documents are versioned, documents without the version field
+   * are version 1.
+   */
+  public readonly schemaVersion?: number;
+  public readonly schemaVersionField?: string;
+  public readonly upcasters: Record<number, Upcaster>;
 
   constructor(opts: DocumentMetadataOpts<Model, Document>) {
-    super(opts.manager, opts.DocumentClass, opts.fields);
+    super(
+      opts.manager,
+      opts.DocumentClass,
+      opts.fields,
+      undefined,
+      opts.discriminator
+    );
     this.client = opts.client;
     this.db = opts.db;
     this.collection = opts.collection;
     this.extensions = opts.extensions || {};
+    this.indexes = opts.indexes || [];
+    this.discriminatorValue = opts.discriminatorValue;
+    this.discriminatorRoot = opts.discriminatorRoot;
     this.repository = opts.repository;
     this.repository.setDocumentMetadata(this);
+
+    this.versionField = this.findSingleField('isVersion', '@Version()');
+    this.deletedAtField = this.findSingleField('isDeletedAt', '@DeletedAt()');
+    this.createdAtField = this.findSingleField('isCreatedAt', '@CreatedAt()');
+    this.updatedAtField = this.findSingleField('isUpdatedAt', '@UpdatedAt()');
+
+    this.schemaVersion = opts.schemaVersion;
+    this.schemaVersionField = opts.schemaVersion
+      ? opts.schemaVersionField || '_schemaVersion'
+      : undefined;
+    this.upcasters = opts.upcasters || {};
+
+    for (let version = 1; version < (this.schemaVersion || 0); version++) {
+      if (typeof this.upcasters[version] !== 'function') {
+        InternalError.throw(
+          `The "${this.DocumentClass.name}" document is missing the upcaster of schema version ${version}`
+        );
+      }
+    }
   }
 
   isRoot(): boolean {
     return true;
   }
+
+  /**
+   * Creates a model from it's properties.
+   */
+  init(props: PartialDeep<Model>): Model {
+    const model = super.init(this.withDiscriminatorValue(props));
+
+    if (model && this.versionField) {
+      const { propertyName } = this.versionField;
+
+      if (typeof model[propertyName] === 'undefined') {
+        model[propertyName] = 1;
+      }
+    }
+
+    if (model) {
+      this.setTimestamps(model);
+    }
+
+    return model;
+  }
+
+  /**
+   * Sets the missing `@CreatedAt()` & `@UpdatedAt()` dates of the model, or
+   * the `@UpdatedAt()` date when the model is being updated.
+   */
+  setTimestamps(model: Model, isUpdate = false): void {
+    const now = new Date();
+
+    [this.createdAtField, this.updatedAtField].forEach((field) => {
+      if (!field) {
+        return;
+      }
+
+      const { propertyName } = field;
+      if (
+        typeof model[propertyName] === 'undefined' ||
+        (isUpdate && field === this.updatedAtField)
+      ) {
+        model[propertyName] = now;
+      }
+    });
+  }
+
+  /**
+   * Converts the model fields to a mongodb document.
+   */
+  toDB(model: Model): OptionalUnlessRequiredId<Document> {
+    const doc = super.toDB(model);
+
+    if (doc && typeof this.discriminatorValue !== 'undefined') {
+      doc[this.discriminatorRoot.discriminator.fieldName] =
+        this.discriminatorValue;
+    }
+
+    if (doc && this.schemaVersion) {
+      doc[this.schemaVersionField] = this.schemaVersion;
+    }
+
+    return doc;
+  }
+
+  /**
+   * Gets the schema version the document was stored with.
+   */
+  getSchemaVersion(doc: Record<string, any>): number {
+    return doc?.[this.schemaVersionField] ?? 1;
+  }
+
+  isStale(doc: Record<string, any>): boolean {
+    return (
+      !!this.schemaVersion && this.getSchemaVersion(doc) < this.schemaVersion
+    );
+  }
+
+  /**
+   * Runs the upcasters from the stored schema version up to the current
+   * version.
+   */
+  upcast(doc: Record<string, any>): Record<string, any> {
+    if (!this.isStale(doc)) {
+      return doc;
+    }
+
+    let upcasted = { ...doc };
+    for (
+      let version = this.getSchemaVersion(doc);
+      version < this.schemaVersion;
+      version++
+    ) {
+      upcasted = this.upcasters[version](upcasted);
+    }
+
+    return { ...upcasted, [this.schemaVersionField]: this.schemaVersion };
+  }
+
+  private findSingleField(
+    flag: 'isVersion' | 'isDeletedAt' | 'isCreatedAt' | 'isUpdatedAt',
+    decorator: string
+  ): FieldMetadata | undefined {
+    const fields = [...this.fields.values()].filter((f) => f[flag]);
+    if (fields.length > 1) {
+      InternalError.throw(
+        `The "${this.DocumentClass.name}" document can only have one "${decorator}" property`
+      );
+    }
+
+    return fields[0];
+  }
+
+  private withDiscriminatorValue(
+    props: PartialDeep<Model>
+  ): PartialDeep<Model> {
+    if (typeof this.discriminatorValue === 'undefined') {
+      return props;
+    }
+
+    return {
+      ...((props || {}) as Record<string, any>),
+      [this.discriminatorRoot.discriminator.propertyName]:
+        this.discriminatorValue
+    } as PartialDeep<Model>;
+  }
 }
@@ -1,7 +1,7 @@
-import { DocumentMetadata } from './DocumentMetadata';
+import { DocumentMetadata, DocumentMetadataOpts } from './DocumentMetadata';
 import { FieldMetadata } from './FieldMetadata';
 import { Constructor, WithDocumentFields } from '../typings';
-import { definitionStorage } from '../utils';
+import { definitionStorage, resolveFieldPath } from '../utils';
 import { DocumentManager } from '../DocumentManager';
 import { EmbeddedDocumentMetadata } from './EmbeddedDocumentMetadata';
 import {
@@ -10,9 +10,15 @@ import {
 } from './AbstractDocumentMetadata';
 import { Repository } from '../repository';
 import { DiscriminatorMetadata } from './DiscriminatorMetadata';
-import { ParentDefinition } from './definitions';
+import {
+  DocumentDefinition,
+  IndexDefinition,
+  ParentDefinition
+} from './definitions';
+import { IndexMetadata } from './IndexMetadata';
 import { InternalError } from '../errors';
 import { HydratorFactory } from '../hydration';
+import { ReferenceType } from '../types';
 
 /**
  * DocumentMetadataFactory builds and validates all the Document's metadata.
@@ -126,7 +132,7 @@ export class DocumentMetadataFactory {
    */
   protected async buildDocuments(): Promise<void> {
     await Promise.all(
-      this.documents.map((DocumentClass) => {
+      this.resolveDocumentClasses().map((DocumentClass) => {
         return new Promise<void>(async (resolve, reject) => {
           try {
             this.loadedDocumentMetadata.set(
@@ -155,6 +161,76 @@ export class DocumentMetadataFactory {
     }
 
     const def = definitionStorage.documents.get(DocumentClass);
+    const fields = this.buildFields(DocumentClass);
+    const indexes = this.buildIndexes(DocumentClass, fields);
+
+    if (!definitionStorage.discriminators.has(DocumentClass)) {
+      return this.createDocumentMetadata(def, {
+        DocumentClass,
+        fields,
+        indexes
+      });
+    }
+
+    // root discriminator documents share their collection with the mapped
+    // documents, so the mapped documents' indexes belong to it as well.
+    const discriminatorDef =
+      definitionStorage.discriminators.get(DocumentClass);
+    const mapped = Object.entries(discriminatorDef.map).map(
+      ([value, MappedClass]) => {
+        const mappedFields = this.buildFields(MappedClass());
+
+        return {
+          value,
+          DocumentClass: MappedClass(),
+          fields: mappedFields,
+          indexes: this.buildIndexes(MappedClass(), mappedFields)
+        };
+      }
+    );
+
+    const mapping = new Map<string, AbstractDocumentMetadata<any>>();
+    const meta = await this.createDocumentMetadata(def, {
+      DocumentClass,
+      fields,
+      indexes: mapped.reduce(
+        (indexes, m) => [
+          ...indexes,
+          ...m.indexes.filter((i) => !indexes.some((j) => j.name === i.name))
+        ],
+        indexes
+      ),
+      discriminator: new DiscriminatorMetadata(discriminatorDef, mapping)
+    });
+
+    for (const m of mapped) {
+      const mappedMeta = await this.createDocumentMetadata(def, {
+        DocumentClass: m.DocumentClass,
+        fields: m.fields,
+        indexes: m.indexes,
+        discriminatorValue: m.value,
+        discriminatorRoot: meta
+      });
+
+      mapping.set(m.value, mappedMeta);
+      this.loadedDocumentMetadata.set(m.DocumentClass, mappedMeta);
+    }
+
+    return meta;
+  }
+
+  protected async createDocumentMetadata<T = any>(
+    def: DocumentDefinition,
+    opts: Pick<
+      DocumentMetadataOpts<T, any>,
+      | 'DocumentClass'
+      | 'fields'
+      | 'indexes'
+      | 'discriminator'
+      | 'discriminatorValue'
+      | 'discriminatorRoot'
+    >
+  ): Promise<DocumentMetadata<T>> {
     const client = this.manager.client;
     const db = client.db(def.database);
 
@@ -164,14 +240,16 @@ export class DocumentMetadataFactory {
     );
 
     return new DocumentMetadata({
-      DocumentClass,
+      ...opts,
       manager: this.manager,
-      fields: this.buildFields(DocumentClass),
       client,
       db,
       collection: db.collection(def.collection),
       repository,
-      extensions: def.extensions || {}
+      extensions: def.extensions || {},
+      schemaVersion: def.schemaVersion,
+      schemaVersionField: def.schemaVersionField,
+      upcasters: def.upcasters
     });
   }
 
@@ -206,7 +284,27 @@ export class DocumentMetadataFactory {
 
     if (definitionStorage.fields.has(target)) {
       definitionStorage.fields.get(target).forEach((prop) => {
-        if (!prop.isEmbedded) {
+        if (prop.isReference) {
+          let referenceType = prop.reference();
+          const isReferenceArray = Array.isArray(referenceType);
+          if (isReferenceArray) {
+            referenceType = referenceType[0];
+          }
+
+          fields.set(
+            prop.propertyName,
+            new FieldMetadata({
+              ...prop,
+              type: new ReferenceType(() =>
+                this.manager.getMetadataFor(referenceType)
+              ),
+              typeIsArray: isReferenceArray,
+              isEmbeddedArray: false,
+              isReferenceArray,
+              referenceType
+            })
+          );
+        } else if (!prop.isEmbedded) {
           fields.set(
             prop.propertyName,
             new FieldMetadata({
@@ -261,6 +359,110 @@ export class DocumentMetadataFactory {
     return fields;
   }
 
+  /**
+   * Builds the indexes declared on the document, it's parents, and it's
+   * embedded documents.
+   */
+  protected buildIndexes(
+    target: Constructor,
+    fields: FieldsMetadata,
+    prefix: string = '',
+    visited: Constructor[] = []
+  ): IndexMetadata[] {
+    const indexes: IndexMetadata[] = this.locateIndexDefinitions(target).map(
+      (def) => {
+        const keys = Object.entries(def.keys).reduce(
+          (keys, [path, direction]) => {
+            const resolved = resolveFieldPath(fields, path);
+
+            if (!resolved.isResolved) {
+              InternalError.throw(
+                `@Index() path "${path}" in "${def.DocumentClass.name}" is not a decorated field`
+              );
+            }
+
+            keys[`${prefix}${resolved.path}`] = direction;
+
+            return keys;
+          },
+          {}
+        );
+
+        return new IndexMetadata({
+          DocumentClass: def.DocumentClass,
+          keys,
+          options: def.options
+        });
+      }
+    );
+
+    // locate indexes declared on embedded documents
+    visited = [...visited, target];
+    for (const field of fields.values()) {
+      const { embeddedMetadata, embeddedType } = field;
+
+      if (!embeddedMetadata || visited.includes(embeddedType)) {
+        continue;
+      }
+
+      indexes.push(
+        ...this.buildIndexes(
+          embeddedType,
+          embeddedMetadata.fields,
+          `${prefix}${field.fieldName}.`,
+          visited
+        )
+      );
+    }
+
+    return indexes;
+  }
+
+  /**
+   * Documents mapped by a root `@Discriminator()` document are built with
+   * their root document.
+   */
+  private resolveDocumentClasses(): Constructor[] {
+    const resolved = this.documents.map((DocumentClass) => {
+      if (definitionStorage.documents.has(DocumentClass)) {
+        return DocumentClass;
+      }
+
+      let proto = Object.getPrototypeOf(DocumentClass);
+      while (proto && proto.prototype) {
+        const def = definitionStorage.discriminators.get(proto);
+
+        if (
+          def &&
+          definitionStorage.documents.has(proto) &&
+          Object.values(def.map).some((mapped) => mapped() === DocumentClass)
+        ) {
+          return proto;
+        }
+
+        proto = Object.getPrototypeOf(proto);
+      }
+
+      return DocumentClass;
+    });
+
+    return [...new Set(resolved)];
+  }
+
+  private locateIndexDefinitions(target: Constructor): IndexDefinition[] {
+    const definitions: IndexDefinition[] = [];
+
+    // locate inherited `Index()`
+    let proto = target;
+    while (proto && proto.prototype) {
+      definitions.push(...(definitionStorage.indexes.get(proto) || []));
+
+      proto = Object.getPrototypeOf(proto);
+    }
+
+    return definitions;
+  }
+
   private locateParentDefinition(
     target: Constructor
   ): ParentDefinition | undefined {
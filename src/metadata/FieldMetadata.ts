@@ -1,6 +1,6 @@
 import { Constructor } from '../typings';
 import { EmbeddedDocumentMetadata } from './EmbeddedDocumentMetadata';
-import { FieldDefinition } from './definitions';
+import { FieldConstraints, FieldDefinition } from './definitions';
 import { Type } from '../types';
 import { InternalError } from '../errors';
 
@@ -9,6 +9,8 @@ export interface FieldMetadataOpts<Model, Document>
   isEmbeddedArray?: boolean;
   embeddedType?: Constructor;
   embeddedMetadata?: EmbeddedDocumentMetadata<Model, Document>;
+  isReferenceArray?: boolean;
+  referenceType?: Constructor;
 }
 
 export class FieldMetadata<Model = any, Document = Model> {
@@ -21,9 +23,18 @@ export class FieldMetadata<Model = any, Document = Model> {
   public readonly isEmbeddedArray?: boolean;
   public readonly embeddedType?: Constructor;
   public readonly embeddedMetadata?: EmbeddedDocumentMetadata<Model, Document>;
+  public readonly reference?: () => any;
+  public readonly isReference: boolean;
+  public readonly isVersion: boolean;
+  public readonly isDeletedAt: boolean;
+  public readonly isCreatedAt: boolean;
+  public readonly isUpdatedAt: boolean;
+  public readonly isReferenceArray?: boolean;
+  public readonly referenceType?: Constructor;
   public readonly type: Type;
   public readonly typeIsArray: boolean;
   public readonly shouldCreateJSValue: boolean;
+  public readonly constraints?: FieldConstraints;
 
   constructor(opts: FieldMetadataOpts<Model, Document>) {
     this.DocumentClass = opts.DocumentClass;
@@ -35,9 +46,18 @@ export class FieldMetadata<Model = any, Document = Model> {
     this.isEmbeddedArray = opts.isEmbeddedArray;
     this.embeddedType = opts.embeddedType;
     this.embeddedMetadata = opts.embeddedMetadata;
+    this.reference = opts.reference;
+    this.isReference = opts.isReference === true;
+    this.isVersion = opts.isVersion === true;
+    this.isDeletedAt = opts.isDeletedAt === true;
+    this.isCreatedAt = opts.isCreatedAt === true;
+    this.isUpdatedAt = opts.isUpdatedAt === true;
+    this.isReferenceArray = opts.isReferenceArray;
+    this.referenceType = opts.referenceType;
     this.type = opts.type;
     this.typeIsArray = opts.typeIsArray;
     this.shouldCreateJSValue = opts.shouldCreateJSValue;
+    this.constraints = opts.constraints;
 
     if (this.type && !(this.type instanceof Type)) {
       InternalError.throw(`Invalid type for property "${this.propertyName}"`);
@@ -0,0 +1,53 @@
+import { IndexDescription, IndexDirection } from 'mongodb';
+import { Constructor } from '../typings';
+import { IndexOptions } from './definitions';
+
+export interface IndexMetadataOpts<Model> {
+  DocumentClass: Constructor<Model>;
+  keys: Record<string, IndexDirection>;
+  options: IndexOptions;
+}
+
+/**
+ * IndexMetadata contains a declared index with keys resolved to database field names.
+ */
+export class IndexMetadata<Model = any> {
+  public readonly DocumentClass: Constructor<Model>;
+  public readonly name: string;
+  public readonly keys: Record<string, IndexDirection>;
+  public readonly options: IndexOptions;
+
+  constructor(opts: IndexMetadataOpts<Model>) {
+    this.DocumentClass = opts.DocumentClass;
+    this.keys = opts.keys;
+    this.options = opts.options;
+    this.name = opts.options.name || IndexMetadata.generateName(opts.keys);
+  }
+
+  /**
+   * Whether or not this is a text index.
+   */
+  isText(): boolean {
+    return Object.values(this.keys).includes('text');
+  }
+
+  /**
+   * Gets the index in the format accepted by `collection.createIndexes()`.
+   */
+  toIndexDescription(): IndexDescription {
+    return {
+      ...this.options,
+      name: this.name,
+      key: { ...this.keys }
+    };
+  }
+
+  /**
+   * Generates the same name MongoDB generates, i.e. "name_1_address.city_-1".
+   */
+  static generateName(keys: Record<string, IndexDirection>): string {
+    return Object.entries(keys)
+      .map(([key, direction]) => `${key}_${direction}`)
+      .join('_');
+  }
+}
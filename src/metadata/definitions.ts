@@ -1,3 +1,8 @@
+import {
+  CollationOptions,
+  CreateIndexesOptions,
+  IndexDirection
+} from 'mongodb';
 import { Constructor } from '../typings';
 import { Repository } from '../repository';
 import { Type } from '../types';
@@ -13,6 +18,39 @@ export interface DocumentDefinition<T = any> {
   database?: string;
   collection: string;
   extensions?: Record<any, any>;
+  schemaVersion?: number;
+  schemaVersionField?: string;
+  upcasters?: Record<number, Upcaster>;
+}
+
+/**
+ * Upgrades a raw document of the schema version it's keyed by to the next
+ * schema version.
+ */
+export type Upcaster = (doc: Record<string, any>) => Record<string, any>;
+
+/**
+ * Constraints checked when models are inserted or replaced, and for `$set`
+ * values of updates.  Values of array fields are checked item by item, except
+ * for `minLength`, `maxLength` & `validate`.
+ */
+export interface FieldConstraints {
+  /**
+   * The value cannot be `undefined` (nor `null`, unless `nullable`).
+   */
+  required?: boolean;
+  nullable?: boolean;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  enum?: any[] | Record<string, any>;
+
+  /**
+   * Returns `true` for valid values, or the error message.
+   */
+  validate?: (value: any, model: any) => boolean | string;
 }
 
 export interface FieldDefinition<T = any> {
@@ -23,9 +61,16 @@ export interface FieldDefinition<T = any> {
   fieldName: string;
   isEmbedded: boolean;
   embedded?: () => any;
+  isReference?: boolean;
+  reference?: () => any;
   extensions?: Record<any, any>;
   isId: boolean;
+  isVersion?: boolean;
+  isDeletedAt?: boolean;
+  isCreatedAt?: boolean;
+  isUpdatedAt?: boolean;
   shouldCreateJSValue: boolean;
+  constraints?: FieldConstraints;
 }
 
 export interface ParentDefinition<T = any> {
@@ -40,3 +85,29 @@ export interface DiscriminatorDefinition<T = any> {
   fieldName?: string;
   map: Record<string, () => Constructor>;
 }
+
+export interface IndexOptions
+  extends Pick<
+    CreateIndexesOptions,
+    | 'name'
+    | 'unique'
+    | 'sparse'
+    | 'expireAfterSeconds'
+    | 'partialFilterExpression'
+    | 'hidden'
+    | 'weights'
+    | 'default_language'
+    | 'language_override'
+    | 'wildcardProjection'
+  > {
+  collation?: CollationOptions;
+}
+
+export interface IndexDefinition<T = any> {
+  DocumentClass: Constructor<T>;
+  /**
+   * Index keys using property paths, i.e. `{ 'address.city': 1 }`.
+   */
+  keys: Record<string, IndexDirection>;
+  options: IndexOptions;
+}
@@ -5,3 +5,4 @@ export * from './DocumentMetadata';
 export * from './DocumentMetadataFactory';
 export * from './EmbeddedDocumentMetadata';
 export * from './FieldMetadata';
+export * from './IndexMetadata';
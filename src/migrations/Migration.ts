@@ -0,0 +1,68 @@
+import { ClientSession } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+
+/**
+ * A schema (or data) change of the database, i.e. renaming a field.
+ */
+export interface Migration {
+  /**
+   * The unique name of the migration, stored in the state collection once
+   * it's applied (defaults to the file name of loaded migrations).
+   */
+  name: string;
+
+  /**
+   * Runs the migration in a transaction (default: `true`), disable it for
+   * commands that can't run in transactions, i.e. creating collections.
+   */
+  transaction?: boolean;
+
+  up(manager: DocumentManager, session?: ClientSession): Promise<void>;
+
+  /**
+   * Reverts the migration, migrations without it can't be rolled back.
+   */
+  down?(manager: DocumentManager, session?: ClientSession): Promise<void>;
+}
+
+/**
+ * The migrations (in the order they run) or the directory to load them from.
+ */
+export type MigrationsSource = Migration[] | string;
+
+export type MigrationDirection = 'up' | 'down';
+
+export interface MigrationResult {
+  name: string;
+  direction: MigrationDirection;
+}
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt?: Date;
+}
+
+export interface MigrateOptions {
+  /**
+   * The name of the last migration to apply (default: all migrations).
+   */
+  to?: string;
+
+  /**
+   * Returns the migrations that would run without running them.
+   */
+  dryRun?: boolean;
+}
+
+export interface RollbackOptions {
+  /**
+   * Reverts the migrations applied after the named migration (default: only
+   * the last applied migration).
+   */
+  to?: string;
+
+  /**
+   * Returns the migrations that would be reverted without reverting them.
+   */
+  dryRun?: boolean;
+}
@@ -0,0 +1,263 @@
+import { Collection, ObjectId } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+import { MigrationError } from '../errors';
+import {
+  MigrateOptions,
+  Migration,
+  MigrationDirection,
+  MigrationResult,
+  MigrationsSource,
+  MigrationStatus,
+  RollbackOptions
+} from './Migration';
+import { loadMigrations } from './loadMigrations';
+
+export interface MigratorOptions {
+  migrations: MigrationsSource;
+
+  /**
+   * The collection storing the applied migrations & the lock (default:
+   * `type_mongodb_migrations`).
+   */
+  collection?: string;
+
+  /**
+   * The database of the state collection (default: the client's database).
+   */
+  database?: string;
+
+  /**
+   * Milliseconds after which the lock of a crashed run expires (default:
+   * `600000`).
+   */
+  lockTimeout?: number;
+}
+
+interface MigrationState {
+  _id: string;
+  appliedAt?: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+}
+
+// the lock document shares the state collection with the applied migrations
+const LOCK_ID = '$lock';
+
+/**
+ * Applies & reverts migrations.  Applied migrations are recorded in the state
+ * collection (in the migration's transaction), and a lock document prevents
+ * concurrent runs.
+ */
+export class Migrator {
+  public readonly id = new ObjectId().toHexString();
+
+  constructor(
+    protected readonly manager: DocumentManager,
+    protected readonly options: MigratorOptions
+  ) {}
+
+  get collection(): Collection<MigrationState> {
+    return this.manager.client
+      .db(this.options.database)
+      .collection<MigrationState>(
+        this.options.collection || 'type_mongodb_migrations'
+      );
+  }
+
+  /**
+   * Applies the pending migrations (up to `to`) in order.
+   */
+  async migrate(options: MigrateOptions = {}): Promise<MigrationResult[]> {
+    return this.withLock(!options.dryRun, async () => {
+      const migrations = await this.getMigrations();
+      const applied = await this.getApplied();
+
+      const last = options.to
+        ? this.indexOf(migrations, options.to)
+        : migrations.length - 1;
+      const pending = migrations
+        .slice(0, last + 1)
+        .filter((migration) => !applied.has(migration.name));
+
+      return this.run(pending, 'up', options.dryRun);
+    });
+  }
+
+  /**
+   * Reverts the last applied migration, or the ones applied after `to`.
+   */
+  async rollback(options: RollbackOptions = {}): Promise<MigrationResult[]> {
+    return this.withLock(!options.dryRun, async () => {
+      const migrations = await this.getMigrations();
+      const applied = await this.getApplied();
+
+      // applied migrations that were removed can't be reverted
+      applied.forEach((name) => this.indexOf(migrations, name));
+
+      const first = options.to ? this.indexOf(migrations, options.to) + 1 : 0;
+      const reverted = migrations
+        .slice(first)
+        .filter((migration) => applied.has(migration.name))
+        .reverse();
+
+      return this.run(
+        options.to ? reverted : reverted.slice(0, 1),
+        'down',
+        options.dryRun
+      );
+    });
+  }
+
+  /**
+   * Lists the migrations with the date they were applied.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await this.getMigrations();
+    const states = await this.collection
+      .find({ _id: { $ne: LOCK_ID } })
+      .toArray();
+
+    return migrations.map(({ name }) => {
+      const state = states.find((s) => s._id === name);
+
+      return state ? { name, appliedAt: state.appliedAt } : { name };
+    });
+  }
+
+  /**
+   * Gets the names of the applied migrations.
+   */
+  async getApplied(): Promise<Set<string>> {
+    const states = await this.collection
+      .find({ _id: { $ne: LOCK_ID } }, { projection: { _id: 1 } })
+      .toArray();
+
+    return new Set(states.map((state) => state._id));
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  protected async getMigrations(): Promise<Migration[]> {
+    const { migrations } = this.options;
+    const loaded =
+      typeof migrations === 'string'
+        ? await loadMigrations(this.manager, migrations)
+        : migrations;
+
+    const names = new Set<string>();
+    loaded.forEach(({ name }) => {
+      if (names.has(name)) {
+        MigrationError.duplicate(name);
+      }
+
+      names.add(name);
+    });
+
+    return loaded;
+  }
+
+  protected indexOf(migrations: Migration[], name: string): number {
+    const index = migrations.findIndex((migration) => migration.name === name);
+
+    if (index === -1) {
+      MigrationError.notFound(name);
+    }
+
+    return index;
+  }
+
+  protected async run(
+    migrations: Migration[],
+    direction: MigrationDirection,
+    dryRun?: boolean
+  ): Promise<MigrationResult[]> {
+    if (direction === 'down') {
+      migrations
+        .filter((migration) => typeof migration.down !== 'function')
+        .forEach((migration) => MigrationError.irreversible(migration.name));
+    }
+
+    const results: MigrationResult[] = [];
+
+    for (const migration of migrations) {
+      if (!dryRun) {
+        await this.runMigration(migration, direction);
+      }
+
+      results.push({ name: migration.name, direction });
+    }
+
+    return results;
+  }
+
+  protected async runMigration(
+    migration: Migration,
+    direction: MigrationDirection
+  ): Promise<void> {
+    const { name } = migration;
+
+    if (migration.transaction === false) {
+      await migration[direction](this.manager);
+      await (direction === 'up'
+        ? this.collection.insertOne({ _id: name, appliedAt: new Date() })
+        : this.collection.deleteOne({ _id: name }));
+
+      return;
+    }
+
+    await this.manager.withTransaction(async (session) => {
+      await migration[direction](this.manager, session);
+      await (direction === 'up'
+        ? this.collection.insertOne(
+            { _id: name, appliedAt: new Date() },
+            { session }
+          )
+        : this.collection.deleteOne({ _id: name }, { session }));
+    });
+  }
+
+  /**
+   * Runs the callback while holding the lock.  Expired locks of crashed runs
+   * are taken over.
+   */
+  protected async withLock<T>(
+    shouldLock: boolean,
+    cb: () => Promise<T>
+  ): Promise<T> {
+    if (!shouldLock) {
+      return cb();
+    }
+
+    const now = new Date();
+
+    try {
+      await this.collection.updateOne(
+        { _id: LOCK_ID, lockedUntil: { $lt: now } },
+        {
+          $set: {
+            lockedBy: this.id,
+            lockedUntil: new Date(
+              now.getTime() + (this.options.lockTimeout ?? 600000)
+            )
+          }
+        },
+        { upsert: true }
+      );
+    } catch (err) {
+      // the lock exists & is not expired
+      if (err?.code === 11000) {
+        MigrationError.locked();
+      }
+
+      throw err;
+    }
+
+    try {
+      return await cb();
+    } finally {
+      await this.collection.deleteOne({ _id: LOCK_ID, lockedBy: this.id });
+    }
+  }
+}
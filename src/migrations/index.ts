@@ -0,0 +1,3 @@
+export * from './loadMigrations';
+export * from './Migration';
+export * from './Migrator';
@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DocumentManager } from '../DocumentManager';
+import { InternalError } from '../errors';
+import { Migration } from './Migration';
+
+/**
+ * Loads the migrations of the directory ordered by their file names.  Files
+ * export the migration (or it's class) as the default export.
+ */
+export async function loadMigrations(
+  manager: DocumentManager,
+  directory: string
+): Promise<Migration[]> {
+  const files = (await fs.readdir(directory))
+    .filter((file) => /\.(js|ts)$/.test(file) && !file.endsWith('.d.ts'))
+    .sort();
+
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const exported = await import(path.resolve(directory, file));
+    const value = exported.default || exported;
+    const migration: Migration =
+      typeof value === 'function'
+        ? await Promise.resolve(manager.container.get(value))
+        : value;
+
+    if (!migration || typeof migration.up !== 'function') {
+      InternalError.throw(`Invalid migration "${file}"`);
+    }
+
+    if (!migration.name) {
+      migration.name = path.basename(file, path.extname(file));
+    }
+
+    migrations.push(migration);
+  }
+
+  return migrations;
+}
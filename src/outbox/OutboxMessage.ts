@@ -0,0 +1,55 @@
+import { ObjectId } from 'mongodb';
+import { CreatedAt, Document, Field, Id, Index } from '../decorators';
+
+export type OutboxMessageStatus = 'pending' | 'published' | 'failed';
+
+/**
+ * A message written in the same transaction as the write it's about, and
+ * published later on by the `OutboxRelay`.
+ */
+@Document({ collection: 'outbox' })
+@Index({ status: 1, availableAt: 1 })
+@Index({ aggregateId: 1, status: 1 })
+export class OutboxMessage {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  type: string;
+
+  /**
+   * Messages of the same aggregate are published in order.
+   */
+  @Field()
+  aggregateId: string;
+
+  @Field()
+  payload: Record<string, any>;
+
+  @Field()
+  status: OutboxMessageStatus;
+
+  @Field()
+  attempts: number;
+
+  /**
+   * The message is published once this date passed (i.e. for retries).
+   */
+  @Field()
+  availableAt: Date;
+
+  @Field()
+  lockedBy?: string;
+
+  @Field()
+  lockedUntil?: Date;
+
+  @Field()
+  lastError?: string;
+
+  @Field()
+  publishedAt?: Date;
+
+  @CreatedAt()
+  createdAt: Date;
+}
@@ -0,0 +1,312 @@
+import { ChangeStream, ObjectId } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+import { Repository } from '../repository';
+import { OutboxMessage } from './OutboxMessage';
+
+/**
+ * Publishes the message, i.e. to a message broker.  The message is
+ * acknowledged (marked as published) once the publisher resolves, and retried
+ * when it throws.
+ */
+export type OutboxPublisher = (message: OutboxMessage) => Promise<void> | void;
+
+export interface OutboxRelayOptions {
+  publish: OutboxPublisher;
+
+  /**
+   * The max number of messages locked & published at once (default: `100`).
+   */
+  batchSize?: number;
+
+  /**
+   * Milliseconds to wait before polling again when the outbox is drained
+   * (default: `1000`).
+   */
+  pollInterval?: number;
+
+  /**
+   * Watches the outbox for inserted messages instead of waiting for the next
+   * poll (requires a replica set).
+   */
+  watch?: boolean;
+
+  /**
+   * The number of attempts before the message is marked as "failed"
+   * (default: `10`).
+   */
+  maxAttempts?: number;
+
+  /**
+   * Milliseconds to wait before the next attempt (default: exponential
+   * backoff from 1 second up to 5 minutes).
+   */
+  retryDelay?: (attempts: number) => number;
+
+  /**
+   * Milliseconds after which the messages locked by a crashed relay can be
+   * published by another relay (default: `30000`).
+   */
+  lockTimeout?: number;
+
+  /**
+   * Called with errors of the relay itself (i.e. connection errors), failed
+   * messages are retried instead.
+   */
+  onError?: (err: Error) => void;
+}
+
+/**
+ * Relays the messages of the outbox to the publisher.  Messages are published
+ * in the order they were written per aggregate id, and messages of an
+ * aggregate wait until the previous message was published (or failed).
+ * Multiple relays can run at the same time, messages are locked by the relay
+ * publishing them.
+ */
+export class OutboxRelay {
+  public readonly id = new ObjectId().toHexString();
+
+  protected running?: Promise<void>;
+  protected isStopped = true;
+  protected changeStream?: ChangeStream;
+  protected wake?: () => void;
+
+  constructor(
+    protected readonly manager: DocumentManager,
+    protected readonly options: OutboxRelayOptions
+  ) {}
+
+  get repository(): Repository<OutboxMessage> {
+    return this.manager.getRepository(OutboxMessage);
+  }
+
+  /**
+   * Starts publishing messages until `stop()` is called.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.isStopped = false;
+
+    if (this.options.watch) {
+      this.changeStream = this.manager
+        .collection(OutboxMessage)
+        .watch([{ $match: { operationType: 'insert' } }]);
+      this.changeStream.on('change', () => this.wake?.());
+      this.changeStream.on('error', (err) => this.options.onError?.(err));
+    }
+
+    this.running = this.run();
+  }
+
+  async stop(): Promise<void> {
+    this.isStopped = true;
+    this.wake?.();
+
+    await this.running;
+    await this.changeStream?.close();
+
+    this.running = undefined;
+    this.changeStream = undefined;
+  }
+
+  /**
+   * Locks & publishes a batch of messages, and returns the number of messages
+   * that were published.
+   */
+  async relay(): Promise<number> {
+    const messages = await this.lock();
+    const published = await Promise.all(
+      Array.from(this.groupByAggregate(messages).values()).map((aggregate) =>
+        this.publishAggregate(aggregate)
+      )
+    );
+
+    return published.reduce((sum, n) => sum + n, 0);
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  protected async run(): Promise<void> {
+    const batchSize = this.options.batchSize || 100;
+
+    while (!this.isStopped) {
+      let published = 0;
+
+      try {
+        published = await this.relay();
+      } catch (err) {
+        this.options.onError?.(err);
+      }
+
+      // keep going while there are more messages
+      if (published < batchSize && !this.isStopped) {
+        await this.sleep(this.options.pollInterval ?? 1000);
+      }
+    }
+  }
+
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => this.wake(), ms);
+
+      this.wake = () => {
+        clearTimeout(timeout);
+        this.wake = undefined;
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Locks the next messages that are available for this relay.
+   */
+  protected async lock(): Promise<OutboxMessage[]> {
+    const now = new Date();
+    const candidates = await this.repository
+      .find(
+        {
+          $and: [
+            { status: 'pending', availableAt: { $lte: now } },
+            this.getUnlockedFilter(now)
+          ]
+        },
+        {
+          sort: { _id: 1 },
+          limit: this.options.batchSize || 100,
+          projection: { _id: 1 }
+        }
+      )
+      .toArray();
+
+    if (!candidates.length) {
+      return [];
+    }
+
+    const ids = candidates.map((message) => message._id);
+
+    // other relays may have locked (or published) some of the messages in
+    // the meantime
+    await this.repository.updateMany(
+      {
+        $and: [
+          { _id: { $in: ids }, status: 'pending' },
+          this.getUnlockedFilter(now)
+        ]
+      },
+      {
+        $set: {
+          lockedBy: this.id,
+          lockedUntil: new Date(
+            now.getTime() + (this.options.lockTimeout ?? 30000)
+          )
+        }
+      }
+    );
+
+    return this.repository
+      .find(
+        { _id: { $in: ids }, status: 'pending', lockedBy: this.id },
+        { sort: { _id: 1 } }
+      )
+      .toArray();
+  }
+
+  protected getUnlockedFilter(now: Date): Record<string, any> {
+    return { $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] };
+  }
+
+  protected groupByAggregate(
+    messages: OutboxMessage[]
+  ): Map<string, OutboxMessage[]> {
+    const aggregates = new Map<string, OutboxMessage[]>();
+
+    messages.forEach((message) => {
+      if (!aggregates.has(message.aggregateId)) {
+        aggregates.set(message.aggregateId, []);
+      }
+
+      aggregates.get(message.aggregateId).push(message);
+    });
+
+    return aggregates;
+  }
+
+  /**
+   * Publishes the messages of the aggregate in order, until one of them fails.
+   */
+  protected async publishAggregate(messages: OutboxMessage[]): Promise<number> {
+    let published = 0;
+
+    // previous messages have to be published first
+    const isBlocked = await this.repository.exists({
+      aggregateId: messages[0].aggregateId,
+      status: 'pending',
+      _id: { $lt: messages[0]._id }
+    });
+
+    for (const message of isBlocked ? [] : messages) {
+      if (!(await this.publish(message))) {
+        break;
+      }
+
+      published++;
+    }
+
+    await this.unlock(messages.slice(published));
+
+    return published;
+  }
+
+  protected async publish(message: OutboxMessage): Promise<boolean> {
+    try {
+      await this.options.publish(message);
+    } catch (err) {
+      const attempts = message.attempts + 1;
+      const retryDelay =
+        this.options.retryDelay ||
+        ((n: number) => Math.min(1000 * 2 ** (n - 1), 300000));
+
+      await this.repository.updateOne(
+        { _id: message._id, lockedBy: this.id },
+        {
+          $set: {
+            attempts,
+            lastError: err instanceof Error ? err.message : String(err),
+            availableAt: new Date(Date.now() + retryDelay(attempts)),
+            status:
+              attempts >= (this.options.maxAttempts || 10)
+                ? 'failed'
+                : 'pending'
+          }
+        }
+      );
+
+      return false;
+    }
+
+    await this.repository.updateOne(
+      { _id: message._id, lockedBy: this.id },
+      {
+        $set: { status: 'published', publishedAt: new Date() },
+        $unset: { lockedBy: '', lockedUntil: '' }
+      }
+    );
+
+    return true;
+  }
+
+  protected async unlock(messages: OutboxMessage[]): Promise<void> {
+    if (!messages.length) {
+      return;
+    }
+
+    await this.repository.updateMany(
+      { _id: { $in: messages.map((m) => m._id) }, lockedBy: this.id },
+      { $unset: { lockedBy: '', lockedUntil: '' } }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { Constructor } from '../typings';
+import { DocumentManager } from '../DocumentManager';
+import {
+  DeleteEvent,
+  Events,
+  EventSubscriber,
+  InsertEvent,
+  InsertManyEvent,
+  ReplaceEvent,
+  UpdateEvent
+} from '../events';
+import { OutboxMessage } from './OutboxMessage';
+
+export interface OutboxMessageProps {
+  type: string;
+  aggregateId: any;
+  payload?: Record<string, any>;
+}
+
+type OutboxMessages =
+  | OutboxMessageProps
+  | OutboxMessageProps[]
+  | void
+  | Promise<OutboxMessageProps | OutboxMessageProps[] | void>;
+
+export interface OutboxSubscriberOptions<Model = any> {
+  /**
+   * The documents to subscribe to, defaults to every document (except for
+   * `OutboxMessage`).
+   */
+  documents?: Constructor<Model>[];
+
+  // the messages to write for the "after" events
+  afterInsert?(e: InsertEvent<Model>): OutboxMessages;
+  afterInsertMany?(e: InsertManyEvent<Model>): OutboxMessages;
+  afterUpdate?(e: UpdateEvent<Model>): OutboxMessages;
+  afterUpdateMany?(e: UpdateEvent<Model>): OutboxMessages;
+  afterReplace?(e: ReplaceEvent<Model>): OutboxMessages;
+  afterDelete?(e: DeleteEvent<Model>): OutboxMessages;
+  afterDeleteMany?(e: DeleteEvent<Model>): OutboxMessages;
+}
+
+/**
+ * Writes the outbox messages created for the "after" events in the session of
+ * the write, so that they're committed (or rolled back) together with it.
+ */
+export class OutboxSubscriber<Model = any> implements EventSubscriber<Model> {
+  constructor(protected readonly options: OutboxSubscriberOptions<Model>) {}
+
+  getSubscribedDocuments(manager: DocumentManager): any[] {
+    return (
+      this.options.documents ||
+      manager.metadataFactory
+        .filterMetadata((meta) => meta.DocumentClass !== OutboxMessage)
+        .map((meta) => meta.DocumentClass)
+    );
+  }
+
+  async afterInsert(e: InsertEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterInsert?.(e));
+  }
+
+  async afterInsertMany(e: InsertManyEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterInsertMany?.(e));
+  }
+
+  async afterUpdate(e: UpdateEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterUpdate?.(e));
+  }
+
+  async afterUpdateMany(e: UpdateEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterUpdateMany?.(e));
+  }
+
+  async afterReplace(e: ReplaceEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterReplace?.(e));
+  }
+
+  async afterDelete(e: DeleteEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterDelete?.(e));
+  }
+
+  async afterDeleteMany(e: DeleteEvent<Model>): Promise<void> {
+    await this.write(e, await this.options.afterDeleteMany?.(e));
+  }
+
+  protected async write(
+    e: Events<Model>,
+    messages: OutboxMessageProps | OutboxMessageProps[] | void
+  ): Promise<void> {
+    const props = ([] as OutboxMessageProps[]).concat(messages || []);
+
+    if (!props.length) {
+      return;
+    }
+
+    const repository = e.meta.manager.getRepository(OutboxMessage);
+    const availableAt = new Date();
+
+    await repository.insertMany(
+      props.map(({ type, aggregateId, payload }) =>
+        repository.init({
+          type,
+          aggregateId: String(aggregateId),
+          payload: payload || {},
+          status: 'pending',
+          attempts: 0,
+          availableAt
+        })
+      ),
+      { session: e.session }
+    );
+  }
+}
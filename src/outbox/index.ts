@@ -0,0 +1,3 @@
+export * from './OutboxMessage';
+export * from './OutboxRelay';
+export * from './OutboxSubscriber';
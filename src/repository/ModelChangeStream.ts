@@ -0,0 +1,160 @@
+import {
+  ChangeStream,
+  ChangeStreamDocument,
+  Document as MongoDocument,
+  ResumeToken
+} from 'mongodb';
+import { AbstractDocumentMetadata } from '../metadata';
+import { resolvePropertyPath } from '../utils';
+
+/**
+ * The paths of change events that contain (parts of) documents.
+ */
+const documentPaths = [
+  'fullDocument',
+  'fullDocumentBeforeChange',
+  'documentKey'
+];
+
+/**
+ * A change event with hydrated documents & property names.
+ */
+export interface ChangeEvent<Model> {
+  _id: ResumeToken;
+  operationType: ChangeStreamDocument['operationType'];
+  documentKey?: { _id: any };
+  fullDocument?: Model;
+  fullDocumentBeforeChange?: Model;
+  updateDescription?: {
+    updatedFields?: Record<string, any>;
+    removedFields?: string[];
+    truncatedArrays?: { field: string; newSize: number }[];
+  };
+  [key: string]: any;
+}
+
+/**
+ * Wraps a `ChangeStream` to hydrate the documents of it's change events and
+ * translate updated fields to property paths.
+ */
+export class ModelChangeStream<Model>
+  implements AsyncIterable<ChangeEvent<Model>>
+{
+  constructor(
+    public readonly changeStream: ChangeStream<any, any>,
+    protected readonly metadata: AbstractDocumentMetadata<Model, any>
+  ) {}
+
+  get closed(): boolean {
+    return this.changeStream.closed;
+  }
+
+  get resumeToken(): ResumeToken {
+    return this.changeStream.resumeToken;
+  }
+
+  async hasNext(): Promise<boolean> {
+    return this.changeStream.hasNext();
+  }
+
+  async next(): Promise<ChangeEvent<Model>> {
+    return this.toChangeEvent(await this.changeStream.next());
+  }
+
+  async tryNext(): Promise<ChangeEvent<Model> | null> {
+    const change = await this.changeStream.tryNext();
+
+    return change ? this.toChangeEvent(change) : null;
+  }
+
+  async close(): Promise<void> {
+    return this.changeStream.close();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<ChangeEvent<Model>> {
+    for await (const change of this.changeStream) {
+      yield this.toChangeEvent(change);
+    }
+  }
+
+  protected toChangeEvent(change: MongoDocument): ChangeEvent<Model> {
+    const event = { ...change } as ChangeEvent<Model>;
+    const { fields } = this.metadata;
+
+    ['fullDocument', 'fullDocumentBeforeChange'].forEach((key) => {
+      if (change[key]) {
+        event[key] = this.metadata.fromDB(change[key]);
+      }
+    });
+
+    if (change.updateDescription) {
+      const { updatedFields, removedFields, truncatedArrays } =
+        change.updateDescription;
+
+      event.updateDescription = {
+        ...change.updateDescription,
+        updatedFields:
+          updatedFields &&
+          Object.fromEntries(
+            Object.entries(updatedFields).map(([path, value]) => [
+              resolvePropertyPath(fields, path),
+              value
+            ])
+          ),
+        removedFields: removedFields?.map((path: string) =>
+          resolvePropertyPath(fields, path)
+        ),
+        truncatedArrays: truncatedArrays?.map((truncated: any) => ({
+          ...truncated,
+          field: resolvePropertyPath(fields, truncated.field)
+        }))
+      };
+    }
+
+    return event;
+  }
+}
+
+/**
+ * Casts the `$match` stages of a change stream pipeline, i.e.
+ * `fullDocument.propertyName` conditions.
+ */
+export function castChangeStreamPipeline<Model>(
+  metadata: AbstractDocumentMetadata<Model, any>,
+  pipeline: MongoDocument[]
+): MongoDocument[] {
+  return pipeline.map((stage) =>
+    stage.$match
+      ? { ...stage, $match: castChangeStreamFilter(metadata, stage.$match) }
+      : stage
+  );
+}
+
+function castChangeStreamFilter<Model>(
+  metadata: AbstractDocumentMetadata<Model, any>,
+  filter: MongoDocument
+): MongoDocument {
+  const casted: MongoDocument = {};
+
+  Object.entries(filter).forEach(([key, value]) => {
+    if (['$and', '$or', '$nor'].includes(key) && Array.isArray(value)) {
+      casted[key] = value.map((f) => castChangeStreamFilter(metadata, f));
+      return;
+    }
+
+    const prefix = documentPaths.find((path) => key.startsWith(`${path}.`));
+    if (!prefix) {
+      casted[key] = value;
+      return;
+    }
+
+    const property = key.slice(prefix.length + 1);
+    Object.entries(metadata.cast({ [property]: value }, 'filter')).forEach(
+      ([fieldPath, fieldValue]) => {
+        casted[`${prefix}.${fieldPath}`] = fieldValue;
+      }
+    );
+  });
+
+  return casted;
+}
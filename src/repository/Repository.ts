@@ -1,9 +1,18 @@
 import {
+  AggregateOptions,
+  AggregationCursor,
+  AnyBulkWriteOperation,
   BulkWriteOptions,
+  BulkWriteResult,
+  ChangeStreamOptions,
+  ClientSession,
   Collection,
+  CountDocumentsOptions,
   Db,
   DeleteOptions,
   DeleteResult,
+  DistinctOptions,
+  EstimatedDocumentCountOptions,
   FindCursor,
   FindOneAndDeleteOptions,
   FindOneAndReplaceOptions,
@@ -15,13 +24,22 @@ import {
   UpdateOptions,
   UpdateResult,
   WithId,
+  OptionalId,
   OptionalUnlessRequiredId,
-  ModifyResult
+  ModifyResult,
+  ReturnDocument,
+  UpdateFilter as MongoUpdateFilter,
+  Document as MongoDocument
 } from 'mongodb';
 import { DocumentMetadata } from '../metadata';
-import { InternalError, ValidationError } from '../errors';
+import { InternalError, OptimisticLockError, ValidationError } from '../errors';
 import { DocumentManager } from '../DocumentManager';
-import { EventSubscriberMethods, InsertManyEvent } from '../events';
+import {
+  DeleteEvent,
+  Events,
+  EventSubscriberMethods,
+  InsertManyEvent
+} from '../events';
 import { Type } from '../types';
 import {
   Mutable,
@@ -30,15 +48,85 @@ import {
   Filter,
   UpdateFilter
 } from '../typings';
-import { CastInput, CastType } from '../utils';
+import {
+  CastInput,
+  CastType,
+  diff,
+  isPlainObject,
+  resolveFieldPath
+} from '../utils';
+import { getSnapshot, isLoaded, setSnapshot } from '../hydration';
+import { populate } from './populate';
+import { castPipeline, preservesShape } from './aggregate';
+import { BulkWriteOperation } from './bulkWrite';
+import {
+  ModelChangeStream,
+  castChangeStreamPipeline
+} from './ModelChangeStream';
+import {
+  Page,
+  PaginateOptions,
+  createPaginationKeys,
+  createRangeFilter,
+  decodeCursor,
+  encodeCursor
+} from './paginate';
 
 /**
  * `type-mongodb` specific options
  */
 export interface InternalOptions {
   disableCasting?: boolean;
+
+  /**
+   * `@Reference()` property paths to load, i.e. `['author', 'comments.author']`
+   */
+  populate?: string[];
+
+  /**
+   * The `@Version()` the document must have for the write to succeed.
+   */
+  expectedVersion?: number;
+
+  /**
+   * Includes soft deleted documents (see `@DeletedAt()`).
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Only includes soft deleted documents.
+   */
+  onlyDeleted?: boolean;
+
+  /**
+   * Permanently deletes documents that would be soft deleted.
+   */
+  forceDelete?: boolean;
+
+  /**
+   * Set to `false` to run outside of the current transaction (see
+   * `DocumentManager.withTransaction()`).
+   */
+  useCurrentSession?: boolean;
+
+  /**
+   * Records a snapshot of the loaded documents, so `save()` only writes their
+   * changes (forked managers always record snapshots).
+   */
+  snapshot?: boolean;
 }
 
+const internalOptions: (keyof InternalOptions)[] = [
+  'disableCasting',
+  'populate',
+  'expectedVersion',
+  'withDeleted',
+  'onlyDeleted',
+  'forceDelete',
+  'useCurrentSession',
+  'snapshot'
+];
+
 export type WithInternalOptions<T extends Record<string, any>> = T &
   InternalOptions;
 
@@ -115,6 +203,20 @@ export class Repository<
     return this.metadata.toObject(model);
   }
 
+  /**
+   * Converts the model to a plain object of JSON values.
+   */
+  toJSON(model: Model): Record<string, any> {
+    return this.metadata.toJSON(model);
+  }
+
+  /**
+   * Creates a model from it's JSON representation.
+   */
+  fromJSON(json: Record<string, any>): Model {
+    return this.metadata.fromJSON(json);
+  }
+
   /**
    * Converts the model fields to a mongodb document.
    */
@@ -123,10 +225,14 @@ export class Repository<
   }
 
   /**
-   * Creates a model from a document.
+   * Creates a model from a document (see the `snapshot` option).
    */
-  fromDB(doc: WithId<Document>): Model {
-    return this.metadata.fromDB(doc);
+  fromDB(doc: WithId<Document>, options?: InternalOptions): Model {
+    const { unitOfWork } = this.manager;
+
+    return unitOfWork
+      ? unitOfWork.fromDB(this.metadata, doc)
+      : this.metadata.fromDB(doc, { snapshot: options?.snapshot });
   }
 
   // -------------------------------------------------------------------------
@@ -141,9 +247,13 @@ export class Repository<
     filter: F,
     options?: WithInternalOptions<FindOptions>
   ): FindCursor<Model> {
-    return this.collection
+    const cursor = this.collection
       .find(this.castFilter(filter, options) || {}, this.castOptions(options))
-      .map((doc: any) => this.fromDB(doc));
+      .map((doc: any) => this.fromDB(doc, options));
+
+    return options?.populate?.length
+      ? this.populateCursor(cursor, options.populate, options)
+      : cursor;
   }
 
   findByIds(ids: any[]): FindCursor<Model>;
@@ -188,7 +298,16 @@ export class Repository<
       this.castOptions(options)
     );
 
-    return found ? this.fromDB(found) : null;
+    if (!found) {
+      return null;
+    }
+
+    const model = this.fromDB(found, options);
+    if (options?.populate?.length) {
+      await this.populate([model], options.populate, options);
+    }
+
+    return model;
   }
 
   async findOneOrFail<F = Filter<Model>>(
@@ -202,6 +321,218 @@ export class Repository<
     );
   }
 
+  /**
+   * Paginates the models using the values of the sort keys (the `_id` breaks
+   * ties) instead of skipping documents.  Use `first` & `after` to paginate
+   * forward and `last` & `before` to paginate backward.
+   */
+  async paginate<F = Filter<Model>>(
+    filter: F,
+    options: WithInternalOptions<PaginateOptions>
+  ): Promise<Page<Model>> {
+    const { sort, first, after, last, before, ...findOptions } = options;
+    const isBackward = typeof last === 'number';
+    const limit = isBackward ? last : first;
+    const cursor = isBackward ? before : after;
+
+    if (typeof limit !== 'number' || limit < 0) {
+      InternalError.throw('paginate() requires a "first" or "last" count');
+    }
+
+    if (isBackward && typeof first === 'number') {
+      InternalError.throw(
+        'paginate() accepts either a "first" or "last" count'
+      );
+    }
+
+    const keys = createPaginationKeys(
+      this.metadata.fields,
+      this.metadata.idField,
+      sort
+    ).map((key) => ({
+      ...key,
+      direction: isBackward ? ((key.direction * -1) as 1 | -1) : key.direction
+    }));
+
+    let query = this.castFilter(filter, options) || {};
+    if (cursor) {
+      query = this.addConditions(
+        query,
+        createRangeFilter(keys, decodeCursor(keys, cursor))
+      );
+    }
+
+    const docs = await this.collection
+      .find(query, {
+        ...this.castOptions(findOptions),
+        sort: Object.fromEntries(
+          keys.map(({ path, direction }) => [path, direction])
+        ),
+        limit: limit + 1
+      })
+      .toArray();
+
+    const hasMore = docs.length > limit;
+    const page = docs.slice(0, limit);
+    if (isBackward) {
+      page.reverse();
+    }
+
+    const items = page.map((doc) => this.fromDB(doc, options));
+    if (options.populate?.length) {
+      await this.populate(items, options.populate, options);
+    }
+
+    return {
+      items,
+      pageInfo: {
+        hasNextPage: isBackward ? !!cursor : hasMore,
+        hasPreviousPage: isBackward ? hasMore : !!cursor,
+        startCursor: page.length ? encodeCursor(keys, page[0]) : null,
+        endCursor: page.length
+          ? encodeCursor(keys, page[page.length - 1])
+          : null
+      }
+    };
+  }
+
+  async countDocuments<F = Filter<Model>>(
+    filter?: F,
+    options?: WithInternalOptions<CountDocumentsOptions>
+  ): Promise<number> {
+    return this.collection.countDocuments(
+      this.castFilter(filter, options) || {},
+      this.castOptions(options)
+    );
+  }
+
+  /**
+   * Counts the documents using the collection's metadata.  Repositories that
+   * only query part of the collection (i.e. discriminator or soft deleted
+   * documents) fall back to `countDocuments()`.
+   */
+  async estimatedDocumentCount(
+    options?: WithInternalOptions<EstimatedDocumentCountOptions>
+  ): Promise<number> {
+    if (Object.keys(this.getScopeConditions(options)).length) {
+      return this.countDocuments({}, options);
+    }
+
+    return this.collection.estimatedDocumentCount(this.castOptions(options));
+  }
+
+  /**
+   * Checks if any document matches the filter.
+   */
+  async exists<F = Filter<Model>>(
+    filter: F,
+    options?: WithInternalOptions<CountDocumentsOptions>
+  ): Promise<boolean> {
+    return (await this.countDocuments(filter, { ...options, limit: 1 })) > 0;
+  }
+
+  /**
+   * Gets the distinct values of the property path (i.e. `address.city`)
+   * converted to their JS values.
+   */
+  async distinct<F = Filter<Model>>(
+    propertyPath: string,
+    filter?: F,
+    options?: WithInternalOptions<DistinctOptions>
+  ): Promise<any[]> {
+    const { path, field } = resolveFieldPath(
+      this.metadata.fields,
+      propertyPath
+    );
+
+    const values = await this.collection.distinct(
+      path,
+      this.castFilter(filter, options) || {},
+      this.castOptions(options) || {}
+    );
+
+    return values.map((value) => {
+      if (field?.embeddedMetadata && isPlainObject(value)) {
+        return field.embeddedMetadata.fromDB(value);
+      }
+
+      return field?.type ? field.type.convertToJSValue(value) : value;
+    });
+  }
+
+  /**
+   * Loads the `@Reference()` fields of the models for the given property paths.
+   */
+  async populate(
+    models: Model[],
+    paths: string[],
+    options?: FindOptions
+  ): Promise<Model[]> {
+    return populate(this.manager, this.metadata, models, paths, {
+      session: options?.session
+    });
+  }
+
+  /**
+   * Runs the aggregation pipeline with casted `$match` stages & field
+   * references.  Documents are hydrated to models as long as the pipeline
+   * keeps them in the shape of the model (i.e. only `$match`, `$sort`,
+   * `$skip`, `$limit` & `$sample` stages), otherwise the raw documents are
+   * returned.
+   */
+  aggregate<T = any>(
+    pipeline: MongoDocument[] = [],
+    options?: WithInternalOptions<AggregateOptions>
+  ): AggregationCursor<T> {
+    const casted = options?.disableCasting
+      ? { pipeline, isModel: pipeline.every(preservesShape) }
+      : castPipeline(this.metadata, pipeline);
+
+    const conditions = this.getScopeConditions(options);
+    if (Object.keys(conditions).length) {
+      casted.pipeline = [{ $match: conditions }, ...casted.pipeline];
+    }
+
+    const cursor = this.collection.aggregate<T>(
+      casted.pipeline,
+      this.castOptions(options)
+    );
+
+    return casted.isModel
+      ? cursor.map((doc: any) => this.fromDB(doc, options) as unknown as T)
+      : cursor;
+  }
+
+  /**
+   * Watches the collection for changes.  `$match` stages are casted (i.e.
+   * `fullDocument.propertyName` conditions) and the change events have
+   * hydrated documents & property paths.  Repositories of documents mapped
+   * by a root `@Discriminator()` only get the changes with a `fullDocument`
+   * of their discriminator value (i.e. use `fullDocument: 'updateLookup'`).
+   */
+  watch(
+    pipeline: MongoDocument[] = [],
+    options?: WithInternalOptions<ChangeStreamOptions>
+  ): ModelChangeStream<Model> {
+    let casted = options?.disableCasting
+      ? pipeline
+      : castChangeStreamPipeline(this.metadata, pipeline);
+
+    const { discriminatorRoot, discriminatorValue } = this.metadata;
+    if (discriminatorRoot) {
+      const { fieldName } = discriminatorRoot.discriminator;
+      casted = [
+        { $match: { [`fullDocument.${fieldName}`]: discriminatorValue } },
+        ...casted
+      ];
+    }
+
+    return new ModelChangeStream(
+      this.collection.watch(casted, this.castOptions(options)),
+      this.metadata
+    );
+  }
+
   create(props: PartialDeep<Model>, options?: InsertOneOptions): Promise<Model>;
   create(
     props: PartialDeep<Model>[],
@@ -236,19 +567,84 @@ export class Repository<
     return Object.keys(insertedIds).map((i) => models[i]);
   }
 
+  /**
+   * Inserts new models, or updates the fields of models that changed since
+   * they were loaded with a `snapshot` (or last saved).  Models loaded
+   * without a `snapshot` are replaced as a whole.
+   */
+  async save(
+    model: Model,
+    options?: WithInternalOptions<UpdateOptions>
+  ): Promise<Model> {
+    const snapshot = getSnapshot(model);
+    const { fieldName, propertyName } = this.metadata.idField;
+
+    if (!snapshot && isLoaded(model)) {
+      const filter = { [propertyName]: model[propertyName] };
+      const { matchedCount } = await this.replaceOne(
+        filter,
+        model as PartialDeep<Model>,
+        {
+          ...options,
+          withDeleted: true
+        }
+      );
+
+      if (matchedCount === 0) {
+        ValidationError.documentNotFound(this.metadata, filter);
+      }
+
+      setSnapshot(model, this.toDB(model));
+
+      return model;
+    }
+
+    if (!snapshot) {
+      await this.insertOne(model, this.castOptions(options));
+      setSnapshot(model, this.toDB(model));
+
+      return model;
+    }
+
+    if (!Object.keys(diff(snapshot, this.toDB(model), [fieldName])).length) {
+      return model;
+    }
+
+    this.metadata.setTimestamps(model, true);
+    this.metadata.validate(model);
+    const doc = this.toDB(model);
+    const expectedVersion = this.getVersion(model);
+
+    // models may have been loaded `withDeleted`
+    const filter = { [fieldName]: doc[fieldName] };
+    const { matchedCount } = await this.updateOne(
+      filter,
+      diff(snapshot, doc, [fieldName]),
+      { ...options, expectedVersion, disableCasting: true, withDeleted: true }
+    );
+
+    if (matchedCount === 0) {
+      ValidationError.documentNotFound(this.metadata, filter);
+    }
+
+    this.setNextVersion(model, expectedVersion);
+    setSnapshot(model, this.withNextVersion(doc, expectedVersion));
+
+    return model;
+  }
+
   async insertOne(
     model: Model,
     options?: InsertOneOptions
   ): Promise<InsertOneResult<Document>> {
+    this.metadata.setTimestamps(model);
+    this.metadata.validate(model);
     const doc = this.toDB(model);
 
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeInsert,
       EventSubscriberMethods.AfterInsert,
-      {
-        meta: this.metadata,
-        model
-      },
+      this.withSession({ meta: this.metadata, model }, options),
       () => {
         return this.collection.insertOne(doc, this.castOptions(options));
       }
@@ -259,12 +655,20 @@ export class Repository<
     models: Model[],
     options?: BulkWriteOptions
   ): Promise<InsertManyResult<Document>> {
-    const docs = models.map((model) => this.toDB(model));
+    const docs = models.map((model) => {
+      this.metadata.setTimestamps(model);
+      this.metadata.validate(model);
 
-    const event: InsertManyEvent = {
-      meta: this.metadata,
-      models: models
-    };
+      return this.toDB(model);
+    });
+
+    const event: InsertManyEvent = this.withSession(
+      {
+        meta: this.metadata,
+        models: models
+      },
+      options
+    );
 
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeInsertMany,
@@ -276,6 +680,127 @@ export class Repository<
     );
   }
 
+  /**
+   * Runs the operations (in model terms) with a single `bulkWrite`, unless
+   * versioned replacements have to be checked one by one.  The "before"
+   * events of every operation are dispatched before writing and the "after"
+   * events once the write succeeded.
+   */
+  async bulkWrite(
+    operations: BulkWriteOperation<Model>[],
+    options?: WithInternalOptions<BulkWriteOptions>
+  ): Promise<BulkWriteResult> {
+    const writes = operations.map((operation) =>
+      this.createBulkWriteEvent(operation, options)
+    );
+
+    for (const { before, event } of writes) {
+      await this.manager.eventManager.dispatch(before, event);
+    }
+
+    // "before" events may have changed the models & updates
+    const result = operations.some((operation) =>
+      this.isVersionedReplacement(operation)
+    )
+      ? await this.writeVersionedBatches(operations, options)
+      : await this.collection.bulkWrite(
+          operations.map((operation) =>
+            this.toBulkWriteOperation(operation, options)
+          ),
+          this.castOptions(options)
+        );
+
+    for (const { after, event } of writes) {
+      await this.manager.eventManager.dispatch(after, event);
+    }
+
+    return result;
+  }
+
+  /**
+   * Writes the versioned replacements one by one (and the other operations in
+   * batches between them) to check that each replacement matched its
+   * expected `@Version()`.  The writes stop at the first stale replacement.
+   */
+  protected async writeVersionedBatches(
+    operations: BulkWriteOperation<Model>[],
+    options?: WithInternalOptions<BulkWriteOptions>
+  ): Promise<BulkWriteResult> {
+    const result = {
+      ok: 1,
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      insertedIds: {} as Record<number, any>,
+      upsertedIds: {} as Record<number, any>
+    };
+    const write = async (indexes: number[]): Promise<BulkWriteResult> => {
+      if (!indexes.length) {
+        return null;
+      }
+
+      const res = await this.collection.bulkWrite(
+        indexes.map((i) => this.toBulkWriteOperation(operations[i], options)),
+        this.castOptions(options)
+      );
+
+      result.insertedCount += res.insertedCount;
+      result.matchedCount += res.matchedCount;
+      result.modifiedCount += res.modifiedCount;
+      result.deletedCount += res.deletedCount;
+      result.upsertedCount += res.upsertedCount;
+      Object.entries(res.insertedIds).forEach(([i, id]) => {
+        result.insertedIds[indexes[i]] = id;
+      });
+      Object.entries(res.upsertedIds).forEach(([i, id]) => {
+        result.upsertedIds[indexes[i]] = id;
+      });
+
+      return res;
+    };
+
+    let batch: number[] = [];
+    for (const [i, operation] of operations.entries()) {
+      if (!this.isVersionedReplacement(operation)) {
+        batch.push(i);
+        continue;
+      }
+
+      await write(batch);
+      batch = [];
+
+      const { model, filter } = (
+        operation as { replaceOne: { model: Model; filter?: Filter<any> } }
+      ).replaceOne;
+      const expectedVersion = this.getVersion(model);
+      const { matchedCount } = await write([i]);
+
+      if (matchedCount === 0) {
+        this.failIfVersionMismatch(
+          this.getReplaceFilter(model, filter),
+          expectedVersion
+        );
+      }
+
+      this.setNextVersion(model, expectedVersion);
+    }
+
+    await write(batch);
+
+    return result as unknown as BulkWriteResult;
+  }
+
+  protected isVersionedReplacement(
+    operation: BulkWriteOperation<Model>
+  ): boolean {
+    return (
+      'replaceOne' in operation &&
+      typeof this.getVersion(operation.replaceOne.model) === 'number'
+    );
+  }
+
   async findOneAndUpdate<F = Filter<Model>, U = UpdateFilter<Model>>(
     filter: F,
     update: U,
@@ -284,19 +809,30 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeUpdate,
       EventSubscriberMethods.AfterUpdate,
-      {
-        meta: this.metadata,
-        filter,
-        update
-      },
+      this.withSession({ meta: this.metadata, filter, update }, options),
       async () => {
         const result = await this.collection.findOneAndUpdate(
-          this.castFilter(filter, options),
-          this.castUpdateFilter(update, options),
+          this.withExpectedVersion(
+            this.castFilter(filter, options),
+            options?.expectedVersion
+          ),
+          this.withVersionIncrement(
+            this.withSchemaVersion(
+              this.withTimestamps(
+                this.castUpdateFilter(update, options),
+                options?.upsert
+              ),
+              options?.upsert
+            )
+          ),
           this.castOptions(options)
         );
 
-        return this.fromModifyResult(result);
+        if (!result?.value && !result?.lastErrorObject?.upserted) {
+          this.failIfVersionMismatch(filter, options?.expectedVersion);
+        }
+
+        return this.fromModifyResult(result, options);
       }
     );
   }
@@ -342,13 +878,34 @@ export class Repository<
     model: Model,
     options?: WithInternalOptions<FindOneAndReplaceOptions>
   ): Promise<Model | null> {
-    const result = await this.collection.findOneAndReplace(
+    this.metadata.setTimestamps(model, true);
+    this.metadata.validate(model);
+    const expectedVersion = this.getVersion(model);
+    const filterWithVersion = this.withExpectedVersion(
       this.castFilter(filter, options),
-      this.toDB(model),
-      this.castOptions(options)
+      expectedVersion
     );
+    const doc = this.withNextVersion(this.toDB(model), expectedVersion);
 
-    return this.fromModifyResult(result);
+    // replacements keep the stored `@CreatedAt()` date
+    const result = this.metadata.createdAtField
+      ? await this.collection.findOneAndUpdate(
+          filterWithVersion,
+          this.getReplacementPipeline(doc),
+          this.castOptions(options)
+        )
+      : await this.collection.findOneAndReplace(
+          filterWithVersion,
+          doc,
+          this.castOptions(options)
+        );
+
+    if (!result?.value && !result?.lastErrorObject?.upserted) {
+      this.failIfVersionMismatch(filter, expectedVersion);
+    }
+    this.setNextVersion(model, expectedVersion);
+
+    return this.fromModifyResult(result, options);
   }
 
   async findOneAndReplaceOrFail<F = Filter<Model>>(
@@ -394,17 +951,23 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeDelete,
       EventSubscriberMethods.AfterDelete,
-      {
-        meta: this.metadata,
-        filter
-      },
+      this.createDeleteEvent(filter, options),
       async () => {
-        const result = await this.collection.findOneAndDelete(
-          this.castFilter(filter, options),
-          this.castOptions(options)
-        );
-
-        return this.fromModifyResult(result);
+        const result = this.isSoftDelete(options)
+          ? await this.collection.findOneAndUpdate(
+              this.castFilter(filter, options),
+              this.getSoftDeleteUpdate(),
+              {
+                ...this.castOptions(options),
+                returnDocument: ReturnDocument.AFTER
+              }
+            )
+          : await this.collection.findOneAndDelete(
+              this.castFilter(filter, options),
+              this.castOptions(options)
+            );
+
+        return this.fromModifyResult(result, options);
       }
     );
   }
@@ -448,17 +1011,31 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeUpdate,
       EventSubscriberMethods.AfterUpdate,
-      {
-        meta: this.metadata,
-        filter,
-        update
-      },
-      () =>
-        this.collection.updateOne(
-          this.castFilter(filter, options),
-          this.castUpdateFilter(update, options),
+      this.withSession({ meta: this.metadata, filter, update }, options),
+      async () => {
+        const result = (await this.collection.updateOne(
+          this.withExpectedVersion(
+            this.castFilter(filter, options),
+            options?.expectedVersion
+          ),
+          this.withVersionIncrement(
+            this.withSchemaVersion(
+              this.withTimestamps(
+                this.castUpdateFilter(update, options),
+                options?.upsert
+              ),
+              options?.upsert
+            )
+          ),
           this.castOptions(options)
-        ) as Promise<UpdateResult>
+        )) as UpdateResult;
+
+        if (result.matchedCount === 0 && !result.upsertedCount) {
+          this.failIfVersionMismatch(filter, options?.expectedVersion);
+        }
+
+        return result;
+      }
     );
   }
 
@@ -482,15 +1059,19 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeUpdateMany,
       EventSubscriberMethods.AfterUpdateMany,
-      {
-        meta: this.metadata,
-        filter,
-        update
-      },
+      this.withSession({ meta: this.metadata, filter, update }, options),
       () =>
         this.collection.updateMany(
           this.castFilter(filter, options),
-          this.castUpdateFilter(update, options),
+          this.withVersionIncrement(
+            this.withSchemaVersion(
+              this.withTimestamps(
+                this.castUpdateFilter(update, options),
+                options?.upsert
+              ),
+              options?.upsert
+            )
+          ),
           this.castOptions(options)
         ) as Promise<UpdateResult>
     );
@@ -519,22 +1100,42 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeReplace,
       EventSubscriberMethods.AfterReplace,
-      {
-        meta: this.metadata,
-        filter,
-        model
-      },
+      this.withSession({ meta: this.metadata, filter, model }, options),
       async () => {
-        const doc = this.toDB(model);
+        this.metadata.setTimestamps(model, true);
+        this.metadata.validate(model);
+        const expectedVersion = this.getVersion(model);
+        const doc = this.withNextVersion(this.toDB(model), expectedVersion);
         if (this.metadata.idField.propertyName in doc) {
           delete doc[this.metadata.idField.propertyName];
         }
 
-        return (await this.collection.replaceOne(
+        const filterWithVersion = this.withExpectedVersion(
           this.castFilter(filter, options),
-          doc,
-          this.castOptions(options)
-        )) as UpdateResult;
+          expectedVersion
+        );
+
+        // replacements keep the stored `@CreatedAt()` date
+        const result = (
+          this.metadata.createdAtField
+            ? await this.collection.updateOne(
+                filterWithVersion,
+                this.getReplacementPipeline(doc),
+                this.castOptions(options)
+              )
+            : await this.collection.replaceOne(
+                filterWithVersion,
+                doc,
+                this.castOptions(options)
+              )
+        ) as UpdateResult;
+
+        if (result.matchedCount === 0 && !result.upsertedCount) {
+          this.failIfVersionMismatch(filter, expectedVersion);
+        }
+        this.setNextVersion(model, expectedVersion);
+
+        return result;
       }
     );
   }
@@ -558,11 +1159,18 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeDelete,
       EventSubscriberMethods.AfterDelete,
-      {
-        meta: this.metadata,
-        filter
-      },
+      this.createDeleteEvent(filter, options),
       async () => {
+        if (this.isSoftDelete(options)) {
+          const result = await this.collection.updateOne(
+            this.castFilter(filter, options),
+            this.getSoftDeleteUpdate(),
+            this.castOptions(options)
+          );
+
+          return result && result.modifiedCount === 1;
+        }
+
         const result = await this.collection.deleteOne(
           this.castFilter(filter, options),
           this.castOptions(options)
@@ -590,15 +1198,26 @@ export class Repository<
     return this.manager.eventManager.dispatchBeforeAndAfter(
       EventSubscriberMethods.BeforeDeleteMany,
       EventSubscriberMethods.AfterDeleteMany,
-      {
-        meta: this.metadata,
-        filter
-      },
-      () =>
-        this.collection.deleteMany(
+      this.createDeleteEvent(filter, options),
+      async () => {
+        if (this.isSoftDelete(options)) {
+          const result = await this.collection.updateMany(
+            this.castFilter(filter, options),
+            this.getSoftDeleteUpdate(),
+            this.castOptions(options)
+          );
+
+          return {
+            acknowledged: result.acknowledged,
+            deletedCount: result.modifiedCount
+          };
+        }
+
+        return this.collection.deleteMany(
           this.castFilter(filter, options),
           this.castOptions(options)
-        )
+        );
+      }
     );
   }
 
@@ -614,11 +1233,110 @@ export class Repository<
     );
   }
 
+  /**
+   * Permanently deletes documents (including soft deleted ones).
+   */
+  async forceDelete<F = Filter<Model>>(
+    filter: F,
+    options?: WithInternalOptions<DeleteOptions>
+  ): Promise<DeleteResult> {
+    return this.deleteMany(filter, {
+      withDeleted: true,
+      ...options,
+      forceDelete: true
+    });
+  }
+
+  /**
+   * Restores soft deleted documents.
+   */
+  async restore<F = Filter<Model>>(
+    filter: F,
+    options?: WithInternalOptions<UpdateOptions>
+  ): Promise<UpdateResult> {
+    const { deletedAtField } = this.metadata;
+
+    if (!deletedAtField) {
+      InternalError.throw(
+        `"${this.metadata.name}" does not have a "@DeletedAt()" property`
+      );
+    }
+
+    return this.updateMany(
+      filter,
+      { $unset: { [deletedAtField.propertyName]: '' } },
+      { onlyDeleted: true, ...options }
+    );
+  }
+
+  /**
+   * Rewrites the documents stored with older schema versions (in batches of
+   * `batchSize`) and resolves the number of upgraded documents.  Soft
+   * deleted documents are upgraded too.
+   */
+  async upgradeAll(options: { batchSize?: number } = {}): Promise<number> {
+    const { schemaVersion, schemaVersionField, versionField } = this.metadata;
+
+    if (!schemaVersion) {
+      return 0;
+    }
+
+    const stale = this.addConditions(
+      {
+        $or: [
+          { [schemaVersionField]: { $lt: schemaVersion } },
+          { [schemaVersionField]: { $exists: false } }
+        ]
+      } as Filter<any>,
+      this.getScopeConditions({ withDeleted: true })
+    );
+    const session = this.getCurrentSession();
+    let upgraded = 0;
+
+    for (;;) {
+      const docs = await this.collection
+        .find(stale, {
+          limit: options.batchSize || 1000,
+          session
+        })
+        .toArray();
+
+      if (!docs.length) {
+        return upgraded;
+      }
+
+      // documents upgraded (or written) in the meantime are skipped
+      const result = await this.collection.bulkWrite(
+        docs.map((doc) => {
+          const version = versionField ? doc[versionField.fieldName] : null;
+
+          return {
+            replaceOne: {
+              filter: {
+                $and: [
+                  this.withExpectedVersion({ _id: doc._id }, version),
+                  stale
+                ]
+              } as Filter<any>,
+              replacement: this.withNextVersion(
+                this.metadata.upcast(doc),
+                version
+              ) as Document
+            }
+          };
+        }),
+        { ordered: false, session }
+      );
+
+      upgraded += result.modifiedCount;
+    }
+  }
+
   /**
    * Casts the fields & values to MongoDB filters.
    */
   castFilter<F = Filter<Model>>(filter: F, options?: InternalOptions): F {
-    return this.cast(filter, 'filter', options);
+    return this.scopeFilter(this.cast(filter, 'filter', options), options);
   }
 
   /**
@@ -628,6 +1346,10 @@ export class Repository<
     update: U,
     options?: InternalOptions
   ): U {
+    if (!options?.disableCasting) {
+      this.metadata.validateUpdate(update);
+    }
+
     return this.cast(update, 'update', options);
   }
 
@@ -648,15 +1370,23 @@ export class Repository<
   }
 
   castOptions<T = any>(opts?: T): T {
-    if (typeof opts !== 'object') {
-      return opts;
+    const session = this.getCurrentSession(opts);
+
+    if (typeof opts !== 'object' || opts === null) {
+      return session ? ({ session } as T) : opts;
     }
 
     const options = { ...opts };
 
     // remove unwanted options
-    if ('disableCasting' in options) {
-      delete (options as InternalOptions).disableCasting;
+    internalOptions.forEach((option) => {
+      if (option in options) {
+        delete (options as InternalOptions)[option];
+      }
+    });
+
+    if (session) {
+      (options as { session?: ClientSession }).session = session;
     }
 
     return options;
@@ -666,6 +1396,557 @@ export class Repository<
   // Protected Methods
   // -------------------------------------------------------------------------
 
+  /**
+   * Adds the session of the options or the current transaction to the event.
+   */
+  protected withSession<E extends Events<Model, Document>>(
+    event: E,
+    options?: InternalOptions & { session?: ClientSession }
+  ): E {
+    const session = options?.session || this.getCurrentSession(options);
+
+    return session ? { ...event, session } : event;
+  }
+
+  /**
+   * Gets the session of the current transaction, unless the options have a
+   * session or opt out.
+   */
+  protected getCurrentSession(
+    options?: InternalOptions & { session?: ClientSession }
+  ): ClientSession | undefined {
+    if (options?.session || options?.useCurrentSession === false) {
+      return undefined;
+    }
+
+    return this.manager.currentSession();
+  }
+
+  /**
+   * Adds the conditions every query for this repository must have (i.e. the
+   * discriminator value of documents mapped by a root `@Discriminator()`, or
+   * excluding soft deleted documents).
+   */
+  protected scopeFilter<F = Filter<Model>>(
+    filter: F,
+    options?: InternalOptions
+  ): F {
+    return this.addConditions(filter, this.getScopeConditions(options));
+  }
+
+  /**
+   * Adds the (casted) conditions to the filter.
+   */
+  protected addConditions<F = Filter<Model>>(
+    filter: F,
+    conditions: Record<string, any>
+  ): F {
+    if (!Object.keys(conditions).length) {
+      return filter;
+    }
+
+    if (!filter || !Object.keys(filter).length) {
+      return conditions as F;
+    }
+
+    // don't overwrite conditions on the same fields
+    if (Object.keys(conditions).some((key) => key in (filter as any))) {
+      return { $and: [filter, conditions] } as F;
+    }
+
+    return { ...filter, ...conditions };
+  }
+
+  /**
+   * Gets the `@Version()` of the model.
+   */
+  protected getVersion(model: Model): number | undefined {
+    const { versionField } = this.metadata;
+
+    return versionField ? model[versionField.propertyName] : undefined;
+  }
+
+  /**
+   * Adds the expected `@Version()` to the casted filter.
+   */
+  protected withExpectedVersion<F = Filter<Model>>(
+    filter: F,
+    expectedVersion?: number
+  ): F {
+    const { versionField } = this.metadata;
+
+    if (!versionField || typeof expectedVersion !== 'number') {
+      return filter;
+    }
+
+    return this.addConditions(filter, {
+      [versionField.fieldName]: expectedVersion
+    });
+  }
+
+  /**
+   * Increments the `@Version()` of casted updates (unless the update
+   * already changes it).
+   */
+  protected withVersionIncrement<U = UpdateFilter<Model>>(update: U): U {
+    const { versionField } = this.metadata;
+
+    if (!versionField || !update || typeof update !== 'object') {
+      return update;
+    }
+
+    const { fieldName } = versionField;
+
+    if (Array.isArray(update)) {
+      return [
+        ...update,
+        {
+          $set: {
+            [fieldName]: { $add: [{ $ifNull: [`$${fieldName}`, 0] }, 1] }
+          }
+        }
+      ] as unknown as U;
+    }
+
+    return this.changesField(update, fieldName)
+      ? update
+      : { ...update, $inc: { ...(update as any).$inc, [fieldName]: 1 } };
+  }
+
+  /**
+   * Sets the `@UpdatedAt()` date of casted updates and the `@CreatedAt()`
+   * date of upserted documents (unless the update already changes them).
+   */
+  protected withTimestamps<U = UpdateFilter<Model>>(
+    update: U,
+    upsert?: boolean
+  ): U {
+    const { updatedAtField } = this.metadata;
+    const createdAtField = upsert ? this.metadata.createdAtField : undefined;
+
+    if (
+      (!createdAtField && !updatedAtField) ||
+      !update ||
+      typeof update !== 'object'
+    ) {
+      return update;
+    }
+
+    const now = new Date();
+
+    if (Array.isArray(update)) {
+      const $set: Record<string, any> = {};
+
+      if (updatedAtField) {
+        $set[updatedAtField.fieldName] = now;
+      }
+      if (createdAtField) {
+        const { fieldName } = createdAtField;
+        $set[fieldName] = { $ifNull: [`$${fieldName}`, now] };
+      }
+
+      return [...update, { $set }] as unknown as U;
+    }
+
+    const result: Record<string, any> = { ...update };
+
+    if (
+      updatedAtField &&
+      !this.changesField(update, updatedAtField.fieldName)
+    ) {
+      result.$set = { ...result.$set, [updatedAtField.fieldName]: now };
+    }
+    if (
+      createdAtField &&
+      !this.changesField(update, createdAtField.fieldName)
+    ) {
+      result.$setOnInsert = {
+        ...result.$setOnInsert,
+        [createdAtField.fieldName]: now
+      };
+    }
+
+    return result as U;
+  }
+
+  /**
+   * Sets the current schema version of documents inserted by upserts (unless
+   * the update already changes it).
+   */
+  protected withSchemaVersion<U = UpdateFilter<Model>>(
+    update: U,
+    upsert?: boolean
+  ): U {
+    const { schemaVersion, schemaVersionField } = this.metadata;
+
+    // pipelines can't tell inserted documents from stale ones
+    if (
+      !upsert ||
+      !schemaVersion ||
+      !update ||
+      typeof update !== 'object' ||
+      Array.isArray(update)
+    ) {
+      return update;
+    }
+
+    return this.changesField(update, schemaVersionField)
+      ? update
+      : ({
+          ...update,
+          $setOnInsert: {
+            ...(update as any).$setOnInsert,
+            [schemaVersionField]: schemaVersion
+          }
+        } as U);
+  }
+
+  /**
+   * Checks if any operator of the casted update changes the field.
+   */
+  protected changesField(update: Record<string, any>, fieldName: string) {
+    return Object.values(update).some(
+      (fields) => isPlainObject(fields) && fieldName in fields
+    );
+  }
+
+  /**
+   * Creates an update pipeline replacing the document with the given one
+   * while keeping the stored `@CreatedAt()` date.
+   */
+  protected getReplacementPipeline(
+    doc: Record<string, any>
+  ): MongoUpdateFilter<Document> {
+    const { fieldName } = this.metadata.createdAtField;
+    const idFieldName = this.metadata.idField.fieldName;
+
+    return [
+      {
+        $replaceWith: {
+          $mergeObjects: [
+            { $literal: doc },
+            {
+              [idFieldName]: `$${idFieldName}`,
+              [fieldName]: { $ifNull: [`$${fieldName}`, doc[fieldName]] }
+            }
+          ]
+        }
+      }
+    ] as unknown as MongoUpdateFilter<Document>;
+  }
+
+  /**
+   * Sets the next `@Version()` on a replacement document.
+   */
+  protected withNextVersion<T>(doc: T, expectedVersion?: number): T {
+    const { versionField } = this.metadata;
+
+    if (versionField && typeof expectedVersion === 'number') {
+      doc[versionField.fieldName] = expectedVersion + 1;
+    }
+
+    return doc;
+  }
+
+  protected setNextVersion(model: Model, expectedVersion?: number): void {
+    const { versionField } = this.metadata;
+
+    if (versionField && typeof expectedVersion === 'number') {
+      (model as Record<string, any>)[versionField.propertyName] =
+        expectedVersion + 1;
+    }
+  }
+
+  protected failIfVersionMismatch(
+    filter: Filter<any>,
+    expectedVersion?: number
+  ) {
+    if (this.metadata.versionField && typeof expectedVersion === 'number') {
+      OptimisticLockError.versionMismatch(
+        this.metadata,
+        filter,
+        expectedVersion
+      );
+    }
+  }
+
+  /**
+   * Gets the casted conditions used by `scopeFilter`.
+   */
+  protected getScopeConditions(options?: InternalOptions): Record<string, any> {
+    const conditions: Record<string, any> = {};
+    const { discriminatorRoot, discriminatorValue, deletedAtField } =
+      this.metadata;
+
+    if (discriminatorRoot) {
+      conditions[discriminatorRoot.discriminator.fieldName] =
+        discriminatorValue;
+    }
+
+    if (deletedAtField && options?.onlyDeleted) {
+      conditions[deletedAtField.fieldName] = { $ne: null };
+    } else if (deletedAtField && !options?.withDeleted) {
+      conditions[deletedAtField.fieldName] = null;
+    }
+
+    return conditions;
+  }
+
+  protected isSoftDelete(options?: InternalOptions): boolean {
+    return !!this.metadata.deletedAtField && options?.forceDelete !== true;
+  }
+
+  protected getSoftDeleteUpdate(): MongoUpdateFilter<Document> {
+    return this.withVersionIncrement(
+      this.withTimestamps({
+        $set: { [this.metadata.deletedAtField.fieldName]: new Date() }
+      } as MongoUpdateFilter<Document>)
+    );
+  }
+
+  protected createBulkWriteEvent(
+    operation: BulkWriteOperation<Model>,
+    options?: InternalOptions
+  ): {
+    before: EventSubscriberMethods;
+    after: EventSubscriberMethods;
+    event: Events<Model, Document>;
+  } {
+    const meta = this.metadata;
+
+    if ('insertOne' in operation) {
+      return {
+        before: EventSubscriberMethods.BeforeInsert,
+        after: EventSubscriberMethods.AfterInsert,
+        event: this.withSession(
+          { meta, model: operation.insertOne.model },
+          options
+        )
+      };
+    }
+
+    if ('updateOne' in operation || 'updateMany' in operation) {
+      const isMany = 'updateMany' in operation;
+      const { filter, update } = isMany
+        ? operation.updateMany
+        : operation.updateOne;
+
+      return {
+        before: isMany
+          ? EventSubscriberMethods.BeforeUpdateMany
+          : EventSubscriberMethods.BeforeUpdate,
+        after: isMany
+          ? EventSubscriberMethods.AfterUpdateMany
+          : EventSubscriberMethods.AfterUpdate,
+        event: this.withSession(
+          { meta, filter, update } as Events<Model, Document>,
+          options
+        )
+      };
+    }
+
+    if ('replaceOne' in operation) {
+      return {
+        before: EventSubscriberMethods.BeforeReplace,
+        after: EventSubscriberMethods.AfterReplace,
+        event: this.withSession(
+          {
+            meta,
+            filter: this.getReplaceFilter(
+              operation.replaceOne.model,
+              operation.replaceOne.filter
+            ),
+            model: operation.replaceOne.model
+          },
+          options
+        )
+      };
+    }
+
+    const isMany = 'deleteMany' in operation;
+    const { filter } = isMany ? operation.deleteMany : operation.deleteOne;
+
+    return {
+      before: isMany
+        ? EventSubscriberMethods.BeforeDeleteMany
+        : EventSubscriberMethods.BeforeDelete,
+      after: isMany
+        ? EventSubscriberMethods.AfterDeleteMany
+        : EventSubscriberMethods.AfterDelete,
+      event: this.createDeleteEvent(filter, options)
+    };
+  }
+
+  /**
+   * Casts the `bulkWrite` operation to the MongoDB operation (applying the
+   * same versions, timestamps & soft deletes as the other methods).
+   */
+  protected toBulkWriteOperation(
+    operation: BulkWriteOperation<Model>,
+    options?: InternalOptions
+  ): AnyBulkWriteOperation<Document> {
+    if ('insertOne' in operation) {
+      const { model } = operation.insertOne;
+      this.metadata.setTimestamps(model);
+      this.metadata.validate(model);
+
+      return {
+        insertOne: { document: this.toDB(model) as OptionalId<Document> }
+      };
+    }
+
+    if ('updateOne' in operation || 'updateMany' in operation) {
+      const isMany = 'updateMany' in operation;
+      const { filter, update, ...rest } = isMany
+        ? operation.updateMany
+        : operation.updateOne;
+
+      const casted = {
+        ...rest,
+        filter: this.castFilter<Filter<any>>(filter, options),
+        update: this.withVersionIncrement(
+          this.withSchemaVersion(
+            this.withTimestamps(
+              this.castUpdateFilter(update, options),
+              rest.upsert
+            ),
+            rest.upsert
+          )
+        ) as MongoUpdateFilter<Document>
+      };
+
+      return isMany ? { updateMany: casted } : { updateOne: casted };
+    }
+
+    if ('replaceOne' in operation) {
+      const { model, filter, ...rest } = operation.replaceOne;
+      const castedFilter = this.withExpectedVersion(
+        this.castFilter(this.getReplaceFilter(model, filter), options),
+        this.getVersion(model)
+      );
+
+      this.metadata.setTimestamps(model, true);
+      this.metadata.validate(model);
+      const doc = this.withNextVersion(
+        this.toDB(model),
+        this.getVersion(model)
+      );
+
+      // replacements keep the stored `@CreatedAt()` date
+      return this.metadata.createdAtField
+        ? {
+            updateOne: {
+              ...rest,
+              filter: castedFilter,
+              update: this.getReplacementPipeline(doc)
+            }
+          }
+        : {
+            replaceOne: {
+              ...rest,
+              filter: castedFilter,
+              replacement: doc as Document
+            }
+          };
+    }
+
+    const isMany = 'deleteMany' in operation;
+    const { filter, ...rest } = isMany
+      ? operation.deleteMany
+      : operation.deleteOne;
+    const casted = {
+      ...rest,
+      filter: this.castFilter<Filter<any>>(filter, options)
+    };
+
+    if (this.isSoftDelete(options)) {
+      const update = { ...casted, update: this.getSoftDeleteUpdate() };
+
+      return isMany ? { updateMany: update } : { updateOne: update };
+    }
+
+    return isMany ? { deleteMany: casted } : { deleteOne: casted };
+  }
+
+  /**
+   * Replacements default to the id of the model.
+   */
+  protected getReplaceFilter(model: Model, filter?: Filter<any>): Filter<any> {
+    const { propertyName } = this.metadata.idField;
+
+    return filter || { [propertyName]: model[propertyName] };
+  }
+
+  protected createDeleteEvent(
+    filter: Filter<any>,
+    options?: InternalOptions
+  ): DeleteEvent<Model, Document> {
+    return this.withSession(
+      this.isSoftDelete(options)
+        ? { meta: this.metadata, filter, soft: true }
+        : { meta: this.metadata, filter },
+      options
+    );
+  }
+
+  /**
+   * Populates models as they're read from the cursor, in batches of the
+   * cursor's `batchSize`.  `toArray()` loads the references of every model
+   * at once.
+   */
+  protected populateCursor(
+    cursor: FindCursor<Model>,
+    paths: string[],
+    options?: FindOptions
+  ): FindCursor<Model> {
+    const next = cursor.next.bind(cursor);
+    const hasNext = cursor.hasNext.bind(cursor);
+    const toArray = cursor.toArray.bind(cursor);
+    // the driver's first batch holds 101 documents by default
+    const batchSize = options?.batchSize || 101;
+    let batch: Model[] = [];
+    let isBatching = false;
+
+    return Object.assign(cursor, {
+      next: async (): Promise<Model | null> => {
+        if (isBatching) {
+          return next();
+        }
+
+        if (!batch.length) {
+          const models: Model[] = [];
+
+          while (models.length < batchSize) {
+            const model = await next();
+            if (!model) {
+              break;
+            }
+
+            models.push(model);
+          }
+
+          batch = await this.populate(models, paths, options);
+        }
+
+        return batch.shift() ?? null;
+      },
+      hasNext: async (): Promise<boolean> => batch.length > 0 || hasNext(),
+      toArray: async (): Promise<Model[]> => {
+        isBatching = true;
+
+        try {
+          const populated = batch.splice(0);
+
+          return populated.concat(
+            await this.populate(await toArray(), paths, options)
+          );
+        } finally {
+          isBatching = false;
+        }
+      }
+    });
+  }
+
   protected failIfEmpty(
     meta: DocumentMetadata<Model, Document>,
     filter: Filter<any>,
@@ -678,9 +1959,12 @@ export class Repository<
     return value;
   }
 
-  protected fromModifyResult(result: ModifyResult<Document>): Model | null {
+  protected fromModifyResult(
+    result: ModifyResult<Document>,
+    options?: InternalOptions
+  ): Model | null {
     return result && result.ok && result.value
-      ? this.fromDB(result.value)
+      ? this.fromDB(result.value, options)
       : null;
   }
 }
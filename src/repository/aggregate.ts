@@ -0,0 +1,121 @@
+import { Document as MongoDocument } from 'mongodb';
+import { AbstractDocumentMetadata, FieldsMetadata } from '../metadata';
+import { isPlainObject, resolveFieldPath } from '../utils';
+
+/**
+ * Stages that output documents in the same shape they were given.
+ */
+const shapePreservingStages = ['$match', '$sort', '$skip', '$limit', '$sample'];
+
+export interface CastPipelineResult {
+  pipeline: MongoDocument[];
+
+  /**
+   * Whether or not the pipeline outputs documents in the shape of the model.
+   */
+  isModel: boolean;
+}
+
+export function preservesShape(stage: MongoDocument): boolean {
+  return Object.keys(stage).every((operator) =>
+    shapePreservingStages.includes(operator)
+  );
+}
+
+/**
+ * Casts the stages of the pipeline that are given documents in the shape of
+ * the model, i.e. `$match` filters are casted and `"$propertyName"` references
+ * in `$sort`, `$project` & `$group` stages are renamed to their database
+ * fields.  Stages after the shape changed are left as is.
+ */
+export function castPipeline<Model, Document>(
+  metadata: AbstractDocumentMetadata<Model, Document>,
+  pipeline: MongoDocument[]
+): CastPipelineResult {
+  let isModel = true;
+
+  const casted = pipeline.map((stage) => {
+    if (!isModel) {
+      return stage;
+    }
+
+    isModel = preservesShape(stage);
+
+    return Object.fromEntries(
+      Object.entries(stage).map(([operator, value]) => [
+        operator,
+        castStage(metadata, operator, value)
+      ])
+    );
+  });
+
+  return { pipeline: casted, isModel };
+}
+
+function castStage<Model, Document>(
+  metadata: AbstractDocumentMetadata<Model, Document>,
+  operator: string,
+  value: any
+): any {
+  const { fields } = metadata;
+
+  switch (operator) {
+    case '$match':
+      return metadata.cast(value, 'filter');
+    case '$sort':
+      return renameKeys(fields, value, () => true);
+    case '$project':
+      // only rename included/excluded fields, computed fields are new fields
+      return castExpression(
+        fields,
+        renameKeys(
+          fields,
+          value,
+          (v) => typeof v === 'number' || typeof v === 'boolean'
+        )
+      );
+    case '$group':
+      return castExpression(fields, value);
+    default:
+      return value;
+  }
+}
+
+function renameKeys(
+  fields: FieldsMetadata,
+  value: Record<string, any>,
+  shouldRename: (value: any) => boolean
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      shouldRename(v) ? resolveFieldPath(fields, key).path : key,
+      v
+    ])
+  );
+}
+
+/**
+ * Renames the `"$propertyName"` references of an aggregation expression.
+ */
+function castExpression(fields: FieldsMetadata, expression: any): any {
+  if (typeof expression === 'string') {
+    return expression.startsWith('$') && !expression.startsWith('$$')
+      ? `$${resolveFieldPath(fields, expression.slice(1)).path}`
+      : expression;
+  }
+
+  if (Array.isArray(expression)) {
+    return expression.map((e) => castExpression(fields, e));
+  }
+
+  if (!isPlainObject(expression)) {
+    return expression;
+  }
+
+  return Object.fromEntries(
+    Object.entries(expression).map(([key, value]) => [
+      key,
+      key === '$literal' ? value : castExpression(fields, value)
+    ])
+  );
+}
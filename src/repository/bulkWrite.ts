@@ -0,0 +1,52 @@
+import { DeleteManyModel, ReplaceOneModel, UpdateOneModel } from 'mongodb';
+import { Filter, UpdateFilter } from '../typings';
+
+type UpdateModelOptions = Omit<UpdateOneModel, 'filter' | 'update'>;
+
+export interface BulkInsertOne<Model> {
+  insertOne: { model: Model };
+}
+
+export interface BulkUpdateOne<Model> {
+  updateOne: UpdateModelOptions & {
+    filter: Filter<Model>;
+    update: UpdateFilter<Model> | Record<string, any>[];
+  };
+}
+
+export interface BulkUpdateMany<Model> {
+  updateMany: UpdateModelOptions & {
+    filter: Filter<Model>;
+    update: UpdateFilter<Model> | Record<string, any>[];
+  };
+}
+
+export interface BulkReplaceOne<Model> {
+  replaceOne: Omit<ReplaceOneModel, 'filter' | 'replacement'> & {
+    /**
+     * Defaults to the id of the model.
+     */
+    filter?: Filter<Model>;
+    model: Model;
+  };
+}
+
+export interface BulkDeleteOne<Model> {
+  deleteOne: Omit<DeleteManyModel, 'filter'> & { filter: Filter<Model> };
+}
+
+export interface BulkDeleteMany<Model> {
+  deleteMany: Omit<DeleteManyModel, 'filter'> & { filter: Filter<Model> };
+}
+
+/**
+ * `bulkWrite` operations in model terms, i.e. filters & updates use property
+ * names and inserts & replacements use models.
+ */
+export type BulkWriteOperation<Model> =
+  | BulkInsertOne<Model>
+  | BulkUpdateOne<Model>
+  | BulkUpdateMany<Model>
+  | BulkReplaceOne<Model>
+  | BulkDeleteOne<Model>
+  | BulkDeleteMany<Model>;
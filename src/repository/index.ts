@@ -1 +1,4 @@
 export * from './Repository';
+export * from './bulkWrite';
+export * from './ModelChangeStream';
+export { Page, PageInfo, PaginateOptions } from './paginate';
@@ -0,0 +1,211 @@
+import { Binary, FindOptions, ObjectId } from 'mongodb';
+import { FieldMetadata, FieldsMetadata } from '../metadata';
+import { ValidationError } from '../errors';
+import { isPlainObject, resolveFieldPath } from '../utils';
+
+export interface PaginateOptions
+  extends Omit<FindOptions, 'sort' | 'skip' | 'limit'> {
+  /**
+   * Property paths to sort by, ties are sorted by `_id`.
+   */
+  sort?: Record<string, 1 | -1>;
+
+  /**
+   * Returns the first `n` items after the `after` cursor.
+   */
+  first?: number;
+  after?: string;
+
+  /**
+   * Returns the last `n` items before the `before` cursor.
+   */
+  last?: number;
+  before?: string;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Page<Model> {
+  items: Model[];
+  pageInfo: PageInfo;
+}
+
+export interface PaginationKey {
+  path: string;
+  field?: FieldMetadata;
+  direction: 1 | -1;
+}
+
+/**
+ * Resolves the sort keys (with the id field as the tiebreaker).
+ */
+export function createPaginationKeys(
+  fields: FieldsMetadata,
+  idField: FieldMetadata,
+  sort: Record<string, 1 | -1> = {}
+): PaginationKey[] {
+  const keys: PaginationKey[] = Object.entries(sort).map(
+    ([propertyPath, direction]) => {
+      const { path, field } = resolveFieldPath(fields, propertyPath);
+
+      return { path, field, direction };
+    }
+  );
+
+  if (!keys.some((key) => key.path === idField.fieldName)) {
+    keys.push({
+      path: idField.fieldName,
+      field: idField,
+      direction: keys.length ? keys[keys.length - 1].direction : 1
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Creates the filter for the documents after the cursor's values in the
+ * order of the keys.  Null (and missing) values sort before any other value.
+ */
+export function createRangeFilter(
+  keys: PaginationKey[],
+  values: any[]
+): Record<string, any> {
+  const conditions = keys
+    .map((key, i) => {
+      const range = createRangeCondition(key, values[i]);
+      if (!range) {
+        return undefined;
+      }
+
+      const condition: Record<string, any> = {};
+      keys.slice(0, i).forEach((previous, j) => {
+        condition[previous.path] = values[j];
+      });
+
+      return { ...condition, ...range };
+    })
+    .filter(Boolean);
+
+  return conditions.length === 1 ? conditions[0] : { $or: conditions };
+}
+
+/**
+ * Creates the condition for the values after the cursor's value, or nothing
+ * when no value sorts after it.
+ */
+function createRangeCondition(
+  { path, direction }: PaginationKey,
+  value: any
+): Record<string, any> | undefined {
+  const isNull = value === null || value === undefined;
+
+  if (direction === 1) {
+    return { [path]: isNull ? { $ne: null } : { $gt: value } };
+  }
+
+  if (isNull) {
+    return undefined;
+  }
+
+  return { $or: [{ [path]: { $lt: value } }, { [path]: { $eq: null } }] };
+}
+
+/**
+ * Creates an opaque cursor from the sort key values of the document.  Values
+ * are stored as their JS values using the field's type.
+ */
+export function encodeCursor(
+  keys: PaginationKey[],
+  doc: Record<string, any>
+): string {
+  const values = keys.map(({ path, field }) => {
+    const value = path.split('.').reduce((v, part) => v?.[part], doc);
+
+    return toCursorValue(
+      field?.type ? field.type.convertToJSValue(value) : value
+    );
+  });
+
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Gets the database values of the cursor's sort keys.
+ */
+export function decodeCursor(keys: PaginationKey[], cursor: string): any[] {
+  let values: any[];
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString()).map(
+      fromCursorValue
+    );
+  } catch (e) {
+    values = undefined;
+  }
+
+  if (!Array.isArray(values) || values.length !== keys.length) {
+    ValidationError.throw('Invalid pagination cursor', {
+      code: 'INVALID_CURSOR',
+      cursor
+    });
+  }
+
+  return values.map((value, i) => {
+    const { field } = keys[i];
+
+    return field?.type ? field.type.convertToDatabaseValue(value) : value;
+  });
+}
+
+function toCursorValue(value: any): any {
+  if (value instanceof Date) {
+    return { $date: value.getTime() };
+  }
+  if (value instanceof ObjectId) {
+    return { $oid: value.toHexString() };
+  }
+  if (value instanceof Binary) {
+    return {
+      $binary: value.buffer.toString('base64'),
+      $type: value.sub_type
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(toCursorValue);
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toCursorValue(v)])
+    );
+  }
+
+  return value;
+}
+
+function fromCursorValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(fromCursorValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  if ('$date' in value) {
+    return new Date(value.$date);
+  }
+  if ('$oid' in value) {
+    return new ObjectId(value.$oid);
+  }
+  if ('$binary' in value) {
+    return new Binary(Buffer.from(value.$binary, 'base64'), value.$type);
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, fromCursorValue(v)])
+  );
+}
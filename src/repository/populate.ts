@@ -0,0 +1,158 @@
+import { ClientSession } from 'mongodb';
+import { AbstractDocumentMetadata, FieldMetadata } from '../metadata';
+import { ReferenceType } from '../types';
+import { InternalError } from '../errors';
+import { DocumentManager } from '../DocumentManager';
+
+/**
+ * Nested populate paths, i.e. `['author', 'comments.author']` becomes:
+ *   `{ author: {}, comments: { author: {} } }`
+ */
+export interface PopulateTree {
+  [propertyName: string]: PopulateTree;
+}
+
+export interface PopulateOptions {
+  session?: ClientSession;
+}
+
+interface PopulateContext {
+  manager: DocumentManager;
+  options: PopulateOptions;
+}
+
+export function createPopulateTree(paths: string[]): PopulateTree {
+  const tree: PopulateTree = {};
+
+  paths.forEach((path) => {
+    let current = tree;
+
+    path.split('.').forEach((part) => {
+      current[part] = current[part] || {};
+      current = current[part];
+    });
+  });
+
+  return tree;
+}
+
+/**
+ * Replaces the referenced ids of the models with the referenced models.
+ *
+ * References are loaded with one `$in` query per field for each level of the
+ * tree.  Missing references are set to `null` (or removed from arrays).
+ */
+export async function populate<Model, Document>(
+  manager: DocumentManager,
+  metadata: AbstractDocumentMetadata<Model, Document>,
+  models: Model[],
+  paths: string[],
+  options: PopulateOptions = {}
+): Promise<Model[]> {
+  const filtered = models.filter((model) => model);
+
+  if (filtered.length && paths.length) {
+    await populateTree(metadata, filtered, createPopulateTree(paths), {
+      manager,
+      options
+    });
+  }
+
+  return models;
+}
+
+async function populateTree(
+  metadata: AbstractDocumentMetadata<any>,
+  models: any[],
+  tree: PopulateTree,
+  context: PopulateContext
+): Promise<void> {
+  for (const [propertyName, children] of Object.entries(tree)) {
+    const field = metadata.fields.get(propertyName);
+
+    if (field?.isEmbedded) {
+      await populateTree(
+        field.embeddedMetadata,
+        collectValues(models, propertyName),
+        children,
+        context
+      );
+    } else if (field?.isReference) {
+      await populateField(field, models, children, context);
+    } else {
+      InternalError.throw(
+        `Cannot populate "${propertyName}" of "${metadata.name}", it is not a reference`
+      );
+    }
+  }
+}
+
+async function populateField(
+  field: FieldMetadata,
+  models: any[],
+  children: PopulateTree,
+  context: PopulateContext
+): Promise<void> {
+  const type = field.type as ReferenceType;
+  const { propertyName, isReferenceArray } = field;
+
+  const ids = new Map<string, any>();
+  models.forEach((model) => {
+    toArray(model[propertyName]).forEach((value) => {
+      if (typeof value !== 'undefined' && value !== null) {
+        const id = type.toId(value);
+        ids.set(String(id), id);
+      }
+    });
+  });
+
+  if (!ids.size) {
+    return;
+  }
+
+  const { idField } = type.metadata;
+  const references: any[] = await context.manager
+    .getRepository(type.metadata.DocumentClass)
+    .find(
+      { [idField.propertyName]: { $in: [...ids.values()] } },
+      { session: context.options.session }
+    )
+    .toArray();
+
+  if (Object.keys(children).length) {
+    await populateTree(type.metadata, references, children, context);
+  }
+
+  const loaded = new Map<string, any>(
+    references.map((reference) => [
+      String(reference[idField.propertyName]),
+      reference
+    ])
+  );
+  const resolve = (value: any) =>
+    typeof value === 'undefined' || value === null
+      ? value
+      : loaded.get(String(type.toId(value))) || null;
+
+  models.forEach((model) => {
+    const value = model[propertyName];
+
+    if (isReferenceArray && Array.isArray(value)) {
+      model[propertyName] = value.map(resolve).filter((v: any) => v);
+    } else if (typeof value !== 'undefined') {
+      model[propertyName] = resolve(value);
+    }
+  });
+}
+
+function collectValues(models: any[], propertyName: string): any[] {
+  return models.reduce<any[]>(
+    (values, model) =>
+      values.concat(toArray(model[propertyName]).filter((value) => value)),
+    []
+  );
+}
+
+function toArray(value: any): any[] {
+  return Array.isArray(value) ? value : [value];
+}
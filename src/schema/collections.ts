@@ -0,0 +1,68 @@
+import { DocumentManager } from '../DocumentManager';
+import { DocumentMetadata } from '../metadata';
+
+export interface CreateCollectionsOptions {
+  /**
+   * Lists the missing collections without creating them.
+   */
+  dryRun?: boolean;
+}
+
+export interface CollectionPlan {
+  database: string;
+  collection: string;
+  exists: boolean;
+}
+
+/**
+ * Gets the metadata of the documents that own a collection, documents mapped
+ * by a root discriminator share the root's collection.
+ */
+export function getCollectionMetadata(
+  manager: DocumentManager
+): DocumentMetadata[] {
+  return manager.filterMetadata(
+    (meta) => !!meta.collection && !meta.discriminatorRoot
+  );
+}
+
+/**
+ * Creates the missing collections of the documents, i.e. before creating
+ * documents in transactions.
+ */
+export async function createCollections(
+  manager: DocumentManager,
+  options: CreateCollectionsOptions = {}
+): Promise<CollectionPlan[]> {
+  const plans: CollectionPlan[] = [];
+
+  const metadata = getCollectionMetadata(manager);
+
+  for (const meta of metadata) {
+    const name = meta.collection.collectionName;
+    const existing = await meta.db
+      .listCollections({ name }, { nameOnly: true })
+      .toArray();
+
+    const plan: CollectionPlan = {
+      database: meta.db.databaseName,
+      collection: name,
+      exists: existing.length > 0
+    };
+
+    if (!plan.exists && !options.dryRun) {
+      try {
+        await meta.db.createCollection(name);
+      } catch (err) {
+        // created in the meantime
+        if (err?.code !== 48) {
+          throw err;
+        }
+      }
+    }
+
+    plans.push(plan);
+  }
+
+  return plans;
+}
@@ -0,0 +1,117 @@
+import { AbstractDocumentMetadata, FieldMetadata } from '../metadata';
+import { getDesignType } from '../utils/reflection';
+
+export type FieldSchema = Record<string, any>;
+
+/**
+ * The differences between exported JSON Schemas (`type`) and `$jsonSchema`
+ * validators (`bsonType`).
+ */
+export interface SchemaDialect {
+  typeKey: 'type' | 'bsonType';
+  createEmbeddedSchema(meta: AbstractDocumentMetadata<any, any>): FieldSchema;
+  isNullable(field: FieldMetadata): boolean;
+  withNull(schema: FieldSchema): FieldSchema;
+  createPattern(field: FieldMetadata, pattern: RegExp): string;
+}
+
+// schemas of the fields without a `Type`, by their design type ("number"
+// matches any numeric BSON type)
+const designTypes: Record<string, Record<SchemaDialect['typeKey'], any>> = {
+  String: { type: { type: 'string' }, bsonType: { bsonType: 'string' } },
+  Number: { type: { type: 'number' }, bsonType: { bsonType: 'number' } },
+  Boolean: { type: { type: 'boolean' }, bsonType: { bsonType: 'bool' } },
+  Date: {
+    type: { type: 'string', format: 'date-time' },
+    bsonType: { bsonType: 'date' }
+  }
+};
+
+/**
+ * Creates the schema of the field, including arrays and the constraints.
+ */
+export function createFieldSchema(
+  field: FieldMetadata,
+  dialect: SchemaDialect
+): FieldSchema {
+  const constraints = field.constraints || {};
+  const isArray =
+    field.isEmbeddedArray ||
+    field.isReferenceArray ||
+    field.typeIsArray ||
+    getDesignType(field) === Array;
+
+  const schema: FieldSchema = isArray
+    ? { [dialect.typeKey]: 'array', items: createValueSchema(field, dialect) }
+    : createValueSchema(field, dialect);
+
+  if (isArray) {
+    addConstraint(schema, 'minItems', constraints.minLength);
+    addConstraint(schema, 'maxItems', constraints.maxLength);
+  } else if (schema[dialect.typeKey] === 'string') {
+    addConstraint(schema, 'minLength', constraints.minLength);
+    addConstraint(schema, 'maxLength', constraints.maxLength);
+  }
+
+  return dialect.isNullable(field) ? dialect.withNull(schema) : schema;
+}
+
+/**
+ * Creates the schema of the field's value (or its array items).
+ */
+export function createValueSchema(
+  field: FieldMetadata,
+  dialect: SchemaDialect
+): FieldSchema {
+  const constraints = field.constraints || {};
+
+  if (field.embeddedMetadata) {
+    return dialect.createEmbeddedSchema(field.embeddedMetadata);
+  }
+
+  const schema: FieldSchema = { ...getTypeSchema(field, dialect) };
+
+  addConstraint(schema, 'minimum', constraints.min);
+  addConstraint(schema, 'maximum', constraints.max);
+  if (constraints.pattern) {
+    schema.pattern = dialect.createPattern(field, constraints.pattern);
+  }
+
+  if (constraints.enum) {
+    schema.enum = Array.isArray(constraints.enum)
+      ? constraints.enum
+      : Object.values(constraints.enum);
+  }
+
+  return schema;
+}
+
+export function addConstraint(
+  schema: FieldSchema,
+  key: string,
+  value?: any
+): void {
+  if (typeof value !== 'undefined') {
+    schema[key] = value;
+  }
+}
+
+function getTypeSchema(
+  field: FieldMetadata,
+  dialect: SchemaDialect
+): FieldSchema {
+  const { type } = field;
+
+  if (type) {
+    if (dialect.typeKey === 'bsonType') {
+      return type.bsonType ? { bsonType: type.bsonType } : {};
+    }
+
+    return type.toJSONSchema ? type.toJSONSchema() : {};
+  }
+
+  const designType = getDesignType(field);
+
+  // array items of fields without a type can be of any type
+  return (designType && designTypes[designType.name]?.[dialect.typeKey]) || {};
+}
@@ -0,0 +1,4 @@
+export * from './collections';
+export * from './indexes';
+export * from './jsonSchema';
+export * from './validators';
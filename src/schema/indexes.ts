@@ -0,0 +1,210 @@
+import { Collection, Document, IndexDescription } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+import { DocumentMetadata, IndexMetadata } from '../metadata';
+import { isEqual } from '../utils';
+import { getCollectionMetadata } from './collections';
+
+export interface SyncIndexesOptions {
+  /**
+   * Drops existing indexes that are not declared on the document.
+   */
+  dropUnknown?: boolean;
+
+  /**
+   * Computes the plan without creating or dropping any indexes.
+   */
+  dryRun?: boolean;
+}
+
+export interface IndexSyncPlan {
+  database: string;
+  collection: string;
+  create: IndexDescription[];
+  drop: string[];
+  unchanged: string[];
+}
+
+// options that are compared against the existing index
+const comparableOptions = [
+  'unique',
+  'sparse',
+  'expireAfterSeconds',
+  'partialFilterExpression',
+  'hidden',
+  'collation'
+];
+
+/**
+ * Diffs the declared indexes against the existing indexes for every
+ * document's collection, and applies the changes unless `dryRun` is set.
+ */
+export async function syncIndexes(
+  manager: DocumentManager,
+  options: SyncIndexesOptions = {}
+): Promise<IndexSyncPlan[]> {
+  const plans: IndexSyncPlan[] = [];
+
+  const metadata = getCollectionMetadata(manager);
+
+  for (const meta of metadata) {
+    const plan = await planIndexes(meta, options);
+
+    if (!options.dryRun) {
+      await applyIndexPlan(meta.collection, plan);
+    }
+
+    plans.push(plan);
+  }
+
+  return plans;
+}
+
+/**
+ * Computes the indexes to create & drop for the document's collection.
+ */
+export async function planIndexes(
+  meta: DocumentMetadata,
+  options: SyncIndexesOptions = {}
+): Promise<IndexSyncPlan> {
+  const existing = await listIndexes(meta.collection);
+  const declared = new Map<string, IndexMetadata>(
+    meta.indexes.map((index) => [index.name, index])
+  );
+
+  const plan: IndexSyncPlan = {
+    database: meta.db.databaseName,
+    collection: meta.collection.collectionName,
+    create: [],
+    drop: [],
+    unchanged: []
+  };
+
+  existing.forEach((index) => {
+    // the "_id" index is managed by MongoDB
+    if (index.name === '_id_') {
+      return;
+    }
+
+    if (!declared.has(index.name)) {
+      if (options.dropUnknown) {
+        plan.drop.push(index.name);
+      }
+
+      return;
+    }
+
+    if (isSameIndex(declared.get(index.name), index)) {
+      plan.unchanged.push(index.name);
+    } else {
+      // changed indexes must be dropped and re-created
+      plan.drop.push(index.name);
+      plan.create.push(declared.get(index.name).toIndexDescription());
+    }
+
+    declared.delete(index.name);
+  });
+
+  declared.forEach((index) => plan.create.push(index.toIndexDescription()));
+
+  return plan;
+}
+
+async function applyIndexPlan(
+  collection: Collection<any>,
+  plan: IndexSyncPlan
+): Promise<void> {
+  for (const name of plan.drop) {
+    await collection.dropIndex(name);
+  }
+
+  if (plan.create.length) {
+    await collection.createIndexes(plan.create);
+  }
+}
+
+async function listIndexes(collection: Collection<any>): Promise<Document[]> {
+  try {
+    return await collection.listIndexes().toArray();
+  } catch (err) {
+    // collection does not exist yet
+    if (err?.code === 26) {
+      return [];
+    }
+
+    throw err;
+  }
+}
+
+function isSameIndex(declared: IndexMetadata, existing: Document): boolean {
+  if (
+    !isEqual(
+      Object.entries(getIndexKey(declared)),
+      Object.entries(existing.key)
+    )
+  ) {
+    return false;
+  }
+
+  if (declared.isText() && !isSameTextIndex(declared, existing)) {
+    return false;
+  }
+
+  return comparableOptions.every((option) => {
+    const value = declared.options[option];
+
+    // collations are returned with all the server defaults
+    if (option === 'collation' && value && existing.collation) {
+      return Object.keys(value).every((key) =>
+        isEqual(value[key], existing.collation[key])
+      );
+    }
+
+    return isEqual(normalize(value), normalize(existing[option]));
+  });
+}
+
+/**
+ * Gets the keys the way MongoDB stores them, text indexes have internal keys
+ * (`_fts`, `_ftsx`) in place of the text fields.
+ */
+function getIndexKey(index: IndexMetadata): Record<string, any> {
+  const key: Record<string, any> = {};
+
+  Object.entries(index.keys).forEach(([field, direction]) => {
+    if (direction !== 'text') {
+      key[field] = direction;
+    } else if (!('_fts' in key)) {
+      key._fts = 'text';
+      key._ftsx = 1;
+    }
+  });
+
+  return key;
+}
+
+/**
+ * Compares the text fields (as `weights`) and the language options, which
+ * are returned with the server defaults.
+ */
+function isSameTextIndex(declared: IndexMetadata, existing: Document): boolean {
+  const { weights, default_language, language_override } = declared.options;
+  const textFields = Object.keys(declared.keys).filter(
+    (field) => declared.keys[field] === 'text'
+  );
+
+  return (
+    isEqual(
+      {
+        ...Object.fromEntries(textFields.map((field) => [field, 1])),
+        ...weights
+      },
+      existing.weights
+    ) &&
+    (default_language || 'english') === existing.default_language &&
+    (language_override || 'language') === existing.language_override
+  );
+}
+
+function normalize(value: any): any {
+  return value === false || value === null ? undefined : value;
+}
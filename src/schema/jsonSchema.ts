@@ -0,0 +1,171 @@
+import { DocumentManager } from '../DocumentManager';
+import { AbstractDocumentMetadata } from '../metadata';
+import { Constructor } from '../typings';
+import { SchemaDialect, createFieldSchema } from './fieldSchema';
+
+export type JSONSchema = Record<string, any>;
+
+export type SchemaFormat = 'json-schema' | 'openapi';
+
+export interface ExportSchemasOptions {
+  /**
+   * Emits a JSON Schema draft 2020-12 document with `$defs` or OpenAPI 3.1
+   * `components` (default: `json-schema`).
+   */
+  format?: SchemaFormat;
+
+  /**
+   * The documents to export (default: all documents).
+   */
+  documents?: Constructor[];
+}
+
+interface ExportContext {
+  format: SchemaFormat;
+  schemas: Record<string, JSONSchema>;
+}
+
+/**
+ * Exports the models of the documents, and the embedded documents they use,
+ * as JSON Schema or OpenAPI component schemas named after their classes.
+ */
+export function exportSchemas(
+  manager: DocumentManager,
+  options: ExportSchemasOptions = {}
+): JSONSchema {
+  const ctx: ExportContext = {
+    format: options.format || 'json-schema',
+    schemas: {}
+  };
+
+  // documents mapped by a root discriminator are exported with the root
+  const metadata = manager.filterMetadata(
+    (meta) =>
+      !meta.discriminatorRoot &&
+      (!options.documents || options.documents.includes(meta.DocumentClass))
+  );
+
+  metadata.forEach((meta) => addSchema(ctx, meta));
+
+  if (ctx.format === 'openapi') {
+    return { components: { schemas: ctx.schemas } };
+  }
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $defs: ctx.schemas
+  };
+}
+
+/**
+ * Adds the schema of the model to the context and returns it's `$ref`.
+ */
+function addSchema(
+  ctx: ExportContext,
+  meta: AbstractDocumentMetadata<any, any>,
+  discriminatorValue?: [string, string]
+): string {
+  const { name } = meta;
+
+  if (!ctx.schemas[name]) {
+    // added before it's fields for recursive embedded documents
+    ctx.schemas[name] = {};
+    Object.assign(
+      ctx.schemas[name],
+      discriminatorValue
+        ? createObjectSchema(ctx, meta, discriminatorValue)
+        : createModelSchema(ctx, meta)
+    );
+  }
+
+  return ctx.format === 'openapi'
+    ? `#/components/schemas/${name}`
+    : `#/$defs/${name}`;
+}
+
+/**
+ * Creates the schema of the model.  Models with a discriminator are `oneOf`
+ * the mapped models.
+ */
+function createModelSchema(
+  ctx: ExportContext,
+  meta: AbstractDocumentMetadata<any, any>
+): JSONSchema {
+  const { discriminator } = meta;
+
+  if (!discriminator || !discriminator.mapping.size) {
+    return createObjectSchema(ctx, meta);
+  }
+
+  const mapping: Record<string, string> = {};
+
+  discriminator.mapping.forEach((mapped, value) => {
+    mapping[value] = addSchema(ctx, mapped, [
+      discriminator.propertyName,
+      value
+    ]);
+  });
+
+  return {
+    oneOf: Object.values(mapping).map(($ref) => ({ $ref })),
+    discriminator: { propertyName: discriminator.propertyName, mapping }
+  };
+}
+
+function createObjectSchema(
+  ctx: ExportContext,
+  meta: AbstractDocumentMetadata<any, any>,
+  discriminatorValue?: [string, string]
+): JSONSchema {
+  const properties: JSONSchema = {};
+  const required: string[] = [];
+
+  const dialect = createDialect(ctx);
+
+  meta.fields.forEach((field) => {
+    properties[field.propertyName] = createFieldSchema(field, dialect);
+
+    if (field.constraints?.required) {
+      required.push(field.propertyName);
+    }
+  });
+
+  if (discriminatorValue) {
+    const [propertyName, value] = discriminatorValue;
+
+    properties[propertyName] = { type: 'string', const: value };
+    if (!required.includes(propertyName)) {
+      required.push(propertyName);
+    }
+  }
+
+  return {
+    type: 'object',
+    title: meta.name,
+    ...(required.length ? { required } : {}),
+    properties
+  };
+}
+
+function createDialect(ctx: ExportContext): SchemaDialect {
+  return {
+    typeKey: 'type',
+    createEmbeddedSchema: (meta) => ({ $ref: addSchema(ctx, meta) }),
+    isNullable: (field) => field.constraints?.nullable === true,
+    withNull,
+    // JSON Schema patterns don't have flags
+    createPattern: (field, pattern) => pattern.source
+  };
+}
+
+function withNull(schema: JSONSchema): JSONSchema {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum ? { enum: [...schema.enum, null] } : {})
+    };
+  }
+
+  return { anyOf: [schema, { type: 'null' }] };
+}
@@ -0,0 +1,213 @@
+import { Document } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+import { InternalError } from '../errors';
+import {
+  AbstractDocumentMetadata,
+  DocumentMetadata,
+  FieldMetadata
+} from '../metadata';
+import { SchemaDialect, createFieldSchema } from './fieldSchema';
+import { getCollectionMetadata } from './collections';
+
+export type ValidationLevel = 'off' | 'strict' | 'moderate';
+
+export type ValidationAction = 'error' | 'warn';
+
+export interface SyncValidatorsOptions {
+  /**
+   * Which documents are validated (default: `strict`).
+   */
+  level?: ValidationLevel;
+
+  /**
+   * Whether invalid documents are rejected or only logged (default: `error`).
+   */
+  action?: ValidationAction;
+
+  /**
+   * Computes the validators without applying them.
+   */
+  dryRun?: boolean;
+}
+
+export interface ValidatorSyncPlan {
+  database: string;
+  collection: string;
+  validator: { $jsonSchema: Document };
+  validationLevel: ValidationLevel;
+  validationAction: ValidationAction;
+}
+
+/**
+ * Applies the `$jsonSchema` generated from the metadata as the validator of
+ * every document's collection.
+ */
+export async function syncValidators(
+  manager: DocumentManager,
+  options: SyncValidatorsOptions = {}
+): Promise<ValidatorSyncPlan[]> {
+  const plans: ValidatorSyncPlan[] = [];
+
+  const metadata = getCollectionMetadata(manager);
+
+  for (const meta of metadata) {
+    const plan: ValidatorSyncPlan = {
+      database: meta.db.databaseName,
+      collection: meta.collection.collectionName,
+      validator: { $jsonSchema: createJsonSchema(meta) },
+      validationLevel: options.level || 'strict',
+      validationAction: options.action || 'error'
+    };
+
+    if (!options.dryRun) {
+      await applyValidator(meta, plan);
+    }
+
+    plans.push(plan);
+  }
+
+  return plans;
+}
+
+const dialect: SchemaDialect = {
+  typeKey: 'bsonType',
+  createEmbeddedSchema: (meta) => createJsonSchema(meta),
+  isNullable,
+  withNull,
+  createPattern
+};
+
+// flags of patterns that are inline modifiers in MongoDB's (PCRE) patterns,
+// "g" doesn't change what matches
+const patternFlags = ['i', 'm', 's'];
+
+/**
+ * Creates the `$jsonSchema` for the document, including embedded documents
+ * and the field constraints.  Documents with a discriminator have a `oneOf`
+ * branch for every mapped document.
+ */
+export function createJsonSchema(
+  meta: AbstractDocumentMetadata<any, any>
+): Document {
+  const { discriminator } = meta;
+
+  if (!discriminator || !discriminator.mapping.size) {
+    return createObjectSchema(meta);
+  }
+
+  return {
+    oneOf: Array.from(discriminator.mapping.entries()).map(
+      ([value, mapped]) => {
+        const schema = createObjectSchema(mapped);
+        schema.properties[discriminator.fieldName] = { enum: [value] };
+        schema.required = Array.from(
+          new Set([...(schema.required || []), discriminator.fieldName])
+        );
+
+        return schema;
+      }
+    )
+  };
+}
+
+function createObjectSchema(
+  meta: AbstractDocumentMetadata<any, any>
+): Document {
+  const properties: Document = {};
+  const required: string[] = [];
+
+  meta.fields.forEach((field) => {
+    properties[field.fieldName] = createFieldSchema(field, dialect);
+
+    if (field.isId || field.constraints?.required) {
+      required.push(field.fieldName);
+    }
+  });
+
+  return {
+    bsonType: 'object',
+    title: meta.name,
+    ...(required.length ? { required } : {}),
+    properties
+  };
+}
+
+/**
+ * Mirrors the `required` & `nullable` constraints of models.
+ */
+function isNullable(field: FieldMetadata): boolean {
+  const { required, nullable } = field.constraints || {};
+
+  if (field.isId || nullable === false) {
+    return false;
+  }
+
+  return !required || nullable === true;
+}
+
+/**
+ * Translates the flags of the pattern to inline modifiers, i.e. `/^inv-/i`
+ * to `(?i)^inv-`.
+ */
+function createPattern(field: FieldMetadata, pattern: RegExp): string {
+  const flags = pattern.flags.replace('g', '');
+  const unsupported = flags
+    .split('')
+    .filter((flag) => !patternFlags.includes(flag));
+
+  if (unsupported.length) {
+    InternalError.throw(
+      `The pattern of "${field.DocumentClass.name}.${
+        field.propertyName
+      }" has unsupported flags "${unsupported.join('')}"`
+    );
+  }
+
+  return flags ? `(?${flags})${pattern.source}` : pattern.source;
+}
+
+function withNull(schema: Document): Document {
+  if (schema.bsonType) {
+    return {
+      ...schema,
+      bsonType: [].concat(schema.bsonType, 'null'),
+      ...(schema.enum ? { enum: [...schema.enum, null] } : {})
+    };
+  }
+
+  if (schema.enum) {
+    return { ...schema, enum: [...schema.enum, null] };
+  }
+
+  // embedded documents with a discriminator
+  return schema.oneOf
+    ? { oneOf: [...schema.oneOf, { bsonType: 'null' }] }
+    : schema;
+}
+
+async function applyValidator(
+  meta: DocumentMetadata,
+  plan: ValidatorSyncPlan
+): Promise<void> {
+  const { validator, validationLevel, validationAction } = plan;
+
+  try {
+    await meta.db.command({
+      collMod: plan.collection,
+      validator,
+      validationLevel,
+      validationAction
+    });
+  } catch (err) {
+    // collection does not exist yet
+    if (err?.code !== 26) {
+      throw err;
+    }
+
+    await meta.db.createCollection(plan.collection, {
+      validator,
+      validationLevel,
+      validationAction
+    });
+  }
+}
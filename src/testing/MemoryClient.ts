@@ -0,0 +1,149 @@
+import { MongoClient, ObjectId } from 'mongodb';
+import { MemoryCollection, MemoryCursor } from './MemoryCollection';
+import { matchesFilter } from './query';
+
+/**
+ * A no-op `ClientSession`, writes of transactions are applied right away and
+ * not rolled back when the transaction is aborted.
+ */
+export class MemorySession {
+  public readonly id = { id: new ObjectId() };
+  public hasEnded = false;
+  public readonly transaction = { isActive: false, isCommitted: false };
+
+  inTransaction(): boolean {
+    return this.transaction.isActive;
+  }
+
+  startTransaction(): void {
+    this.transaction.isActive = true;
+    this.transaction.isCommitted = false;
+  }
+
+  async commitTransaction(): Promise<void> {
+    this.transaction.isActive = false;
+    this.transaction.isCommitted = true;
+  }
+
+  async abortTransaction(): Promise<void> {
+    this.transaction.isActive = false;
+  }
+
+  async withTransaction<T>(
+    cb: (session: MemorySession) => Promise<T>
+  ): Promise<T> {
+    this.startTransaction();
+
+    try {
+      const result = await cb(this);
+
+      // the callback may have committed or aborted the transaction
+      if (this.inTransaction()) {
+        await this.commitTransaction();
+      }
+
+      return result;
+    } catch (err) {
+      await this.abortTransaction();
+      throw err;
+    }
+  }
+
+  async endSession(): Promise<void> {
+    if (this.inTransaction()) {
+      await this.abortTransaction();
+    }
+
+    this.hasEnded = true;
+  }
+}
+
+export class MemoryDb {
+  protected readonly collectionsByName = new Map<string, MemoryCollection>();
+
+  constructor(public readonly databaseName: string) {}
+
+  collection<T extends Record<string, any> = any>(
+    name: string
+  ): MemoryCollection<T> {
+    if (!this.collectionsByName.has(name)) {
+      this.collectionsByName.set(
+        name,
+        new MemoryCollection(this.databaseName, name)
+      );
+    }
+
+    return this.collectionsByName.get(name) as MemoryCollection<T>;
+  }
+
+  async createCollection(name: string): Promise<MemoryCollection> {
+    return this.collection(name);
+  }
+
+  async dropCollection(name: string): Promise<boolean> {
+    return this.collectionsByName.delete(name);
+  }
+
+  async collections(): Promise<MemoryCollection[]> {
+    return [...this.collectionsByName.values()];
+  }
+
+  listCollections(filter: Record<string, any> = {}): MemoryCursor {
+    return new MemoryCursor(() =>
+      [...this.collectionsByName.keys()]
+        .map((name) => ({ name, type: 'collection', options: {} }))
+        .filter((info) => matchesFilter(info, filter))
+    );
+  }
+}
+
+/**
+ * An in-memory stand-in for `MongoClient` that can be passed as the
+ * `client` of `DocumentManager.create()` to run repositories without a
+ * MongoDB server (see `createMemoryClient()`).
+ */
+export class MemoryClient {
+  protected readonly databases = new Map<string, MemoryDb>();
+
+  constructor(public readonly defaultDatabase = 'test') {}
+
+  async connect(): Promise<this> {
+    return this;
+  }
+
+  async close(): Promise<void> {
+    // nothing to close
+  }
+
+  db(name?: string): MemoryDb {
+    const databaseName = name || this.defaultDatabase;
+
+    if (!this.databases.has(databaseName)) {
+      this.databases.set(databaseName, new MemoryDb(databaseName));
+    }
+
+    return this.databases.get(databaseName);
+  }
+
+  startSession(): MemorySession {
+    return new MemorySession();
+  }
+
+  async withSession<T>(cb: (session: MemorySession) => Promise<T>): Promise<T> {
+    const session = this.startSession();
+
+    try {
+      return await cb(session);
+    } finally {
+      await session.endSession();
+    }
+  }
+}
+
+/**
+ * Creates an in-memory client typed as a `MongoClient`, i.e.
+ * `DocumentManager.create({ client: createMemoryClient(), documents })`.
+ */
+export function createMemoryClient(defaultDatabase?: string): MongoClient {
+  return new MemoryClient(defaultDatabase) as unknown as MongoClient;
+}
@@ -0,0 +1,506 @@
+import { AnyBulkWriteOperation, MongoServerError, ObjectId } from 'mongodb';
+import { InternalError } from '../errors';
+import { isEqual } from '../utils';
+import { runPipeline } from './pipeline';
+import {
+  clone,
+  matchesFilter,
+  projectDocument,
+  resolvePath,
+  sortDocuments
+} from './query';
+import { applyUpdate, createUpsertDocument } from './update';
+
+type Doc = Record<string, any>;
+
+export interface MemoryFindOptions {
+  sort?: any;
+  skip?: number;
+  limit?: number;
+  projection?: Doc;
+}
+
+/**
+ * A `FindCursor` / `AggregationCursor` over documents loaded on the first
+ * read (after `sort()`, `skip()`, `limit()` & `project()` were applied).
+ */
+export class MemoryCursor<T = any> {
+  protected docs?: any[];
+  protected position = 0;
+  protected transforms: ((doc: any) => any)[] = [];
+
+  constructor(
+    protected readonly load: (options: MemoryFindOptions) => Doc[],
+    protected readonly options: MemoryFindOptions = {}
+  ) {}
+
+  sort(sort: any, direction?: 1 | -1): this {
+    this.options.sort =
+      typeof sort === 'string' ? { [sort]: direction ?? 1 } : sort;
+    return this;
+  }
+
+  skip(skip: number): this {
+    this.options.skip = skip;
+    return this;
+  }
+
+  limit(limit: number): this {
+    this.options.limit = limit;
+    return this;
+  }
+
+  project(projection: Doc): this {
+    this.options.projection = projection;
+    return this;
+  }
+
+  map<R>(transform: (doc: T) => R): MemoryCursor<R> {
+    this.transforms.push(transform);
+    return this as unknown as MemoryCursor<R>;
+  }
+
+  async hasNext(): Promise<boolean> {
+    return this.position < this.getDocs().length;
+  }
+
+  async next(): Promise<T | null> {
+    const docs = this.getDocs();
+
+    if (this.position >= docs.length) {
+      return null;
+    }
+
+    return this.transforms.reduce(
+      (doc, transform) => transform(doc),
+      docs[this.position++]
+    );
+  }
+
+  async tryNext(): Promise<T | null> {
+    return this.next();
+  }
+
+  async toArray(): Promise<T[]> {
+    const results: T[] = [];
+
+    for (let doc = await this.next(); doc !== null; doc = await this.next()) {
+      results.push(doc);
+    }
+
+    return results;
+  }
+
+  async forEach(iterator: (doc: T) => boolean | void): Promise<void> {
+    for (let doc = await this.next(); doc !== null; doc = await this.next()) {
+      if (iterator(doc) === false) {
+        return;
+      }
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, void> {
+    for (let doc = await this.next(); doc !== null; doc = await this.next()) {
+      yield doc;
+    }
+  }
+
+  rewind(): void {
+    this.docs = undefined;
+    this.position = 0;
+  }
+
+  async close(): Promise<void> {
+    this.docs = [];
+  }
+
+  protected getDocs(): Doc[] {
+    if (!this.docs) {
+      this.docs = this.load(this.options);
+    }
+
+    return this.docs;
+  }
+}
+
+/**
+ * An in-memory stand-in for `Collection` implementing the subset used by
+ * repositories.  Documents are copied on the way in & out, and only the
+ * unique `_id` index is enforced.
+ */
+export class MemoryCollection<TSchema extends Doc = Doc> {
+  // keyed by `_id` (in insertion order)
+  protected readonly documents = new Map<string, Doc>();
+
+  constructor(
+    public readonly dbName: string,
+    public readonly collectionName: string
+  ) {}
+
+  get namespace(): string {
+    return `${this.dbName}.${this.collectionName}`;
+  }
+
+  find(
+    filter: Doc = {},
+    options: MemoryFindOptions = {}
+  ): MemoryCursor<TSchema> {
+    const { sort, skip, limit, projection } = options;
+
+    return new MemoryCursor<TSchema>(
+      (opts) =>
+        this.query(filter, opts).map((doc) =>
+          projectDocument(clone(doc), opts.projection)
+        ),
+      { sort, skip, limit, projection }
+    );
+  }
+
+  async findOne(
+    filter: Doc = {},
+    options: MemoryFindOptions = {}
+  ): Promise<TSchema | null> {
+    return this.find(filter, { ...options, limit: 1 }).next();
+  }
+
+  async countDocuments(
+    filter: Doc = {},
+    options: MemoryFindOptions = {}
+  ): Promise<number> {
+    return this.query(filter, { skip: options.skip, limit: options.limit })
+      .length;
+  }
+
+  async estimatedDocumentCount(): Promise<number> {
+    return this.documents.size;
+  }
+
+  async distinct(key: string, filter: Doc = {}): Promise<any[]> {
+    return this.query(filter)
+      .flatMap((doc) => resolvePath(doc, key.split('.')))
+      .flat()
+      .filter((value) => value !== undefined)
+      .reduce(
+        (values: any[], value) =>
+          values.some((v) => isEqual(v, value)) ? values : [...values, value],
+        []
+      );
+  }
+
+  aggregate(pipeline: Doc[] = []): MemoryCursor {
+    return new MemoryCursor(() =>
+      runPipeline(clone([...this.documents.values()]), pipeline)
+    );
+  }
+
+  async insertOne(doc: Doc): Promise<Doc> {
+    return { acknowledged: true, insertedId: this.insert(doc) };
+  }
+
+  async insertMany(docs: Doc[]): Promise<Doc> {
+    const insertedIds: Record<number, any> = {};
+    docs.forEach((doc, i) => (insertedIds[i] = this.insert(doc)));
+
+    return { acknowledged: true, insertedCount: docs.length, insertedIds };
+  }
+
+  async updateOne(filter: Doc, update: Doc | Doc[], options: Doc = {}) {
+    return this.update(filter, update, options, false);
+  }
+
+  async updateMany(filter: Doc, update: Doc | Doc[], options: Doc = {}) {
+    return this.update(filter, update, options, true);
+  }
+
+  async replaceOne(filter: Doc, replacement: Doc, options: Doc = {}) {
+    const [doc] = this.query(filter, { limit: 1 });
+
+    if (!doc && !options.upsert) {
+      return this.updateResult(0, 0);
+    }
+
+    const replaced = this.replace(doc, replacement, filter);
+
+    return doc
+      ? this.updateResult(1, isEqual(doc, replaced) ? 0 : 1)
+      : this.updateResult(0, 0, replaced._id);
+  }
+
+  async deleteOne(filter: Doc = {}) {
+    return this.delete(filter, false);
+  }
+
+  async deleteMany(filter: Doc = {}) {
+    return this.delete(filter, true);
+  }
+
+  async findOneAndUpdate(filter: Doc, update: Doc | Doc[], options: Doc = {}) {
+    const [doc] = this.query(filter, { sort: options.sort, limit: 1 });
+
+    if (!doc && !options.upsert) {
+      return this.modifyResult(null, options);
+    }
+
+    const updated = doc
+      ? this.store(applyUpdate(doc, update), doc)
+      : this.insert(
+          applyUpdate(createUpsertDocument(filter), update, true),
+          true
+        );
+
+    return this.modifyResult(
+      options.returnDocument === 'after' ? updated : doc,
+      options,
+      doc ? undefined : updated._id
+    );
+  }
+
+  async findOneAndReplace(filter: Doc, replacement: Doc, options: Doc = {}) {
+    const [doc] = this.query(filter, { sort: options.sort, limit: 1 });
+
+    if (!doc && !options.upsert) {
+      return this.modifyResult(null, options);
+    }
+
+    const replaced = this.replace(doc, replacement, filter);
+
+    return this.modifyResult(
+      options.returnDocument === 'after' ? replaced : doc,
+      options,
+      doc ? undefined : replaced._id
+    );
+  }
+
+  async findOneAndDelete(filter: Doc, options: Doc = {}) {
+    const [doc] = this.query(filter, { sort: options.sort, limit: 1 });
+
+    if (doc) {
+      this.documents.delete(this.key(doc._id));
+    }
+
+    return this.modifyResult(doc || null, options);
+  }
+
+  async bulkWrite(operations: AnyBulkWriteOperation<any>[], options: Doc = {}) {
+    const result = {
+      ok: 1,
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      insertedIds: {} as Record<number, any>,
+      upsertedIds: {} as Record<number, any>
+    };
+    const errors: any[] = [];
+
+    for (const [i, operation] of operations.entries()) {
+      try {
+        const [[type, op]] = Object.entries(operation) as [string, any][];
+        let res: Doc;
+
+        switch (type) {
+          case 'insertOne':
+            result.insertedIds[i] = this.insert(op.document);
+            result.insertedCount++;
+            continue;
+          case 'updateOne':
+          case 'updateMany':
+            res = await this.update(
+              op.filter,
+              op.update,
+              op,
+              type === 'updateMany'
+            );
+            break;
+          case 'replaceOne':
+            res = await this.replaceOne(op.filter, op.replacement, op);
+            break;
+          case 'deleteOne':
+          case 'deleteMany':
+            res = await this.delete(op.filter, type === 'deleteMany');
+            result.deletedCount += res.deletedCount;
+            continue;
+          default:
+            InternalError.throw(
+              `The in-memory collection does not support "${type}" bulk writes`
+            );
+        }
+
+        result.matchedCount += res.matchedCount;
+        result.modifiedCount += res.modifiedCount;
+        if (res.upsertedCount) {
+          result.upsertedIds[i] = res.upsertedId;
+          result.upsertedCount++;
+        }
+      } catch (err) {
+        if (options.ordered !== false) {
+          throw err;
+        }
+
+        errors.push(err);
+      }
+    }
+
+    if (errors.length) {
+      throw errors[0];
+    }
+
+    return result;
+  }
+
+  async drop(): Promise<boolean> {
+    this.documents.clear();
+    return true;
+  }
+
+  watch(): void {
+    InternalError.throw(
+      'The in-memory collection does not support change streams'
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  protected query(filter: Doc = {}, options: MemoryFindOptions = {}): Doc[] {
+    const { sort, skip = 0, limit = 0 } = options;
+    const docs = sortDocuments(
+      [...this.documents.values()].filter((doc) => matchesFilter(doc, filter)),
+      sort
+    ).slice(skip);
+
+    return limit > 0 ? docs.slice(0, limit) : docs;
+  }
+
+  protected key(id: any): string {
+    return id?._bsontype
+      ? `${id._bsontype}(${id.toString('hex')})`
+      : JSON.stringify(id);
+  }
+
+  /**
+   * Inserts a copy of the document (setting the `_id` of the given document
+   * like the driver does) and resolves the `_id`.
+   */
+  protected insert(doc: Doc): any;
+  protected insert(doc: Doc, returnDocument: true): Doc;
+  protected insert(doc: Doc, returnDocument?: boolean): any {
+    if (doc._id === undefined) {
+      doc._id = new ObjectId();
+    }
+
+    const key = this.key(doc._id);
+    if (this.documents.has(key)) {
+      throw new MongoServerError({
+        message: `E11000 duplicate key error collection: ${this.namespace} index: _id_ dup key: { _id: ${key} }`,
+        code: 11000,
+        keyPattern: { _id: 1 },
+        keyValue: { _id: doc._id }
+      });
+    }
+
+    const stored = clone(doc);
+    this.documents.set(key, stored);
+
+    return returnDocument ? stored : doc._id;
+  }
+
+  /**
+   * Replaces the stored `original` with the updated document.
+   */
+  protected store(updated: Doc, original: Doc): Doc {
+    if (!isEqual(updated._id, original._id)) {
+      throw new MongoServerError({
+        message:
+          "Performing an update on the path '_id' would modify the immutable field '_id'",
+        code: 66
+      });
+    }
+
+    this.documents.set(this.key(original._id), updated);
+
+    return updated;
+  }
+
+  protected replace(doc: Doc | undefined, replacement: Doc, filter: Doc): Doc {
+    if (Object.keys(replacement).some((key) => key.startsWith('$'))) {
+      InternalError.throw('Replacement documents must not contain operators');
+    }
+
+    if (!doc) {
+      return this.insert(
+        { _id: createUpsertDocument(filter)._id, ...clone(replacement) },
+        true
+      );
+    }
+
+    return this.store({ ...clone(replacement), _id: doc._id }, doc);
+  }
+
+  protected async update(
+    filter: Doc,
+    update: Doc | Doc[],
+    options: Doc,
+    isMany: boolean
+  ): Promise<Doc> {
+    const docs = this.query(filter, { limit: isMany ? 0 : 1 });
+
+    if (!docs.length && options.upsert) {
+      const inserted = this.insert(
+        applyUpdate(createUpsertDocument(filter), update, true),
+        true
+      );
+
+      return this.updateResult(0, 0, inserted._id);
+    }
+
+    let modifiedCount = 0;
+    docs.forEach((doc) => {
+      const updated = applyUpdate(doc, update);
+
+      if (!isEqual(doc, updated)) {
+        this.store(updated, doc);
+        modifiedCount++;
+      }
+    });
+
+    return this.updateResult(docs.length, modifiedCount);
+  }
+
+  protected async delete(filter: Doc, isMany: boolean): Promise<Doc> {
+    const docs = this.query(filter, { limit: isMany ? 0 : 1 });
+    docs.forEach((doc) => this.documents.delete(this.key(doc._id)));
+
+    return { acknowledged: true, deletedCount: docs.length };
+  }
+
+  protected updateResult(
+    matchedCount: number,
+    modifiedCount: number,
+    upsertedId?: any
+  ): Doc {
+    return {
+      acknowledged: true,
+      matchedCount,
+      modifiedCount,
+      upsertedCount: upsertedId === undefined ? 0 : 1,
+      upsertedId: upsertedId ?? null
+    };
+  }
+
+  protected modifyResult(doc: Doc | null, options: Doc, upsertedId?: any): Doc {
+    const value = doc ? projectDocument(clone(doc), options.projection) : null;
+
+    return {
+      ok: 1,
+      value,
+      lastErrorObject: {
+        n: doc || upsertedId !== undefined ? 1 : 0,
+        updatedExisting: upsertedId === undefined && !!doc,
+        ...(upsertedId !== undefined ? { upserted: upsertedId } : {})
+      }
+    };
+  }
+}
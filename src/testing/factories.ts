@@ -0,0 +1,279 @@
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../DocumentManager';
+import { InternalError } from '../errors';
+import { DocumentMetadata } from '../metadata';
+import { Constructor, PartialDeep } from '../typings';
+import { isPlainObject } from '../utils';
+
+/**
+ * Deterministic (per sequence) values for factory definitions, `uuid()` &
+ * `objectId()` return a new value on every call of the definition.
+ */
+export interface FactoryHelpers {
+  sequence: number;
+  string(prefix?: string): string;
+  email(domain?: string): string;
+  number(min?: number, max?: number): number;
+  boolean(): boolean;
+  date(from?: Date): Date;
+  pick<T>(values: T[]): T;
+  uuid(): string;
+  objectId(): ObjectId;
+}
+
+export type FactoryDefinition<T> = (
+  sequence: number,
+  helpers: FactoryHelpers
+) => FactoryProps<T>;
+
+export type FactoryTrait<T> = FactoryProps<T> | FactoryDefinition<T>;
+
+/**
+ * Model properties where values may be sub-factories (`addressFactory`) or
+ * lists of them (`reviewFactory.many(2)`).
+ */
+export type FactoryProps<T> = {
+  [K in keyof T]?: PartialDeep<T[K]> | Factory<any> | FactoryList<any>;
+};
+
+export interface FactoryOptions<T> {
+  traits?: Record<string, FactoryTrait<T>>;
+}
+
+function createHelpers(sequence: number): FactoryHelpers {
+  let calls = 0;
+  const hex = (value: number, length: number) =>
+    value.toString(16).padStart(length, '0');
+
+  return {
+    sequence,
+    string: (prefix = 'string') => `${prefix}-${sequence}`,
+    email: (domain = 'example.com') => `user${sequence}@${domain}`,
+    number: (min = 0, max = 1000) =>
+      min + ((sequence * 7919) % (max - min + 1)),
+    boolean: () => sequence % 2 === 0,
+    date: (from = new Date('2020-01-01T00:00:00.000Z')) =>
+      new Date(from.getTime() + sequence * 86400000),
+    pick: (values) => values[(sequence - 1) % values.length],
+    uuid: () => `00000000-${hex(++calls, 4)}-4000-8000-${hex(sequence, 12)}`,
+    objectId: () => new ObjectId(`${hex(sequence, 16)}${hex(++calls, 8)}`)
+  };
+}
+
+/**
+ * A number of models of a sub-factory, see `Factory.many()`.
+ */
+export class FactoryList<T> {
+  constructor(
+    public readonly factory: Factory<T>,
+    public readonly count: number,
+    public readonly overrides: FactoryProps<T> = {},
+    public readonly traits: string[] = []
+  ) {}
+}
+
+/**
+ * Builds models (through `Repository.init()` for documents) from a
+ * definition, traits & overrides.  `create()` persists the models (and the
+ * models of document sub-factories) through their repositories.
+ */
+export class Factory<T> {
+  protected sequence = 0;
+
+  constructor(
+    public readonly DocumentClass: Constructor<T>,
+    protected readonly definition: FactoryDefinition<T>,
+    protected readonly options: FactoryOptions<T> = {}
+  ) {}
+
+  build(
+    manager: DocumentManager,
+    overrides?: FactoryProps<T>,
+    traits?: string[]
+  ): T {
+    return this.make(manager, overrides, traits);
+  }
+
+  buildMany(
+    manager: DocumentManager,
+    count: number,
+    overrides?: FactoryProps<T>,
+    traits?: string[]
+  ): T[] {
+    return Array.from({ length: count }, () =>
+      this.build(manager, overrides, traits)
+    );
+  }
+
+  async create(
+    manager: DocumentManager,
+    overrides?: FactoryProps<T>,
+    traits?: string[]
+  ): Promise<T> {
+    const pending: [Constructor, any][] = [];
+    const model = this.make(manager, overrides, traits, pending);
+
+    // referenced models are created first
+    for (const [DocumentClass, pendingModel] of [
+      ...pending,
+      [this.DocumentClass, model] as [Constructor, any]
+    ]) {
+      await manager.getRepository(DocumentClass).save(pendingModel);
+    }
+
+    return model;
+  }
+
+  async createMany(
+    manager: DocumentManager,
+    count: number,
+    overrides?: FactoryProps<T>,
+    traits?: string[]
+  ): Promise<T[]> {
+    const models: T[] = [];
+
+    for (let i = 0; i < count; i++) {
+      models.push(await this.create(manager, overrides, traits));
+    }
+
+    return models;
+  }
+
+  /**
+   * Uses the factory for a list of models of a sub-factory property.
+   */
+  many(
+    count: number,
+    overrides?: FactoryProps<T>,
+    traits?: string[]
+  ): FactoryList<T> {
+    return new FactoryList(this, count, overrides, traits);
+  }
+
+  resetSequence(): void {
+    this.sequence = 0;
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Builds the model, or the properties of embedded documents.  Models of
+   * document sub-factories are added to `pending` when creating.
+   */
+  protected make(
+    manager: DocumentManager,
+    overrides: FactoryProps<T> = {},
+    traits: string[] = [],
+    pending?: [Constructor, any][],
+    embedded = false
+  ): any {
+    const sequence = ++this.sequence;
+    const helpers = createHelpers(sequence);
+
+    const props = traits.reduce((merged, name) => {
+      const trait = this.options.traits?.[name];
+
+      if (!trait) {
+        InternalError.throw(
+          `The "${this.DocumentClass.name}" factory does not have a "${name}" trait`
+        );
+      }
+
+      return {
+        ...merged,
+        ...(typeof trait === 'function' ? trait(sequence, helpers) : trait)
+      };
+    }, this.definition(sequence, helpers));
+
+    const resolved = this.resolve(
+      manager,
+      { ...props, ...overrides },
+      pending
+    ) as PartialDeep<T>;
+
+    if (embedded) {
+      return resolved;
+    }
+
+    return this.isDocument(manager)
+      ? manager.getRepository(this.DocumentClass).init(resolved)
+      : manager.init(this.DocumentClass, resolved);
+  }
+
+  protected resolve(
+    manager: DocumentManager,
+    value: any,
+    pending?: [Constructor, any][]
+  ): any {
+    if (value instanceof Factory) {
+      return this.resolveFactory(manager, value, {}, [], pending);
+    }
+
+    if (value instanceof FactoryList) {
+      return Array.from({ length: value.count }, () =>
+        this.resolveFactory(
+          manager,
+          value.factory,
+          value.overrides,
+          value.traits,
+          pending
+        )
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolve(manager, item, pending));
+    }
+
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [
+          key,
+          this.resolve(manager, v, pending)
+        ])
+      );
+    }
+
+    return value;
+  }
+
+  protected resolveFactory(
+    manager: DocumentManager,
+    factory: Factory<any>,
+    overrides: FactoryProps<any>,
+    traits: string[],
+    pending?: [Constructor, any][]
+  ): any {
+    if (!factory.isDocument(manager)) {
+      return factory.make(manager, overrides, traits, pending, true);
+    }
+
+    const model = factory.make(manager, overrides, traits, pending);
+    pending?.push([factory.DocumentClass, model]);
+
+    return model;
+  }
+
+  protected isDocument(manager: DocumentManager): boolean {
+    return (
+      manager.getAnyMetadata(this.DocumentClass) instanceof DocumentMetadata
+    );
+  }
+}
+
+/**
+ * Defines a factory of models, i.e.
+ *
+ *   defineFactory(User, (seq, { email }) => ({ name: `User ${seq}`, email: email() }), {
+ *     traits: { admin: { role: 'admin' } }
+ *   });
+ */
+export function defineFactory<T>(
+  DocumentClass: Constructor<T>,
+  definition: FactoryDefinition<T>,
+  options?: FactoryOptions<T>
+): Factory<T> {
+  return new Factory(DocumentClass, definition, options);
+}
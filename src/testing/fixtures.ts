@@ -0,0 +1,95 @@
+import { DocumentManager } from '../DocumentManager';
+import { InternalError } from '../errors';
+import { Constructor } from '../typings';
+import { Factory, FactoryProps } from './factories';
+
+/**
+ * Gets a loaded fixture by key, i.e. `ref('users.john')`.
+ */
+export type FixtureReference = <T = any>(key: string) => T;
+
+export type Fixture<T> =
+  | FactoryProps<T>
+  | ((ref: FixtureReference) => FactoryProps<T>);
+
+export interface FixtureSet<T = any> {
+  name: string;
+  factory: Factory<T>;
+  fixtures: Record<string, Fixture<T>>;
+}
+
+/**
+ * The models of loaded fixture sets keyed by `<set>.<fixture>`.
+ */
+export class Fixtures {
+  protected readonly models = new Map<string, any>();
+
+  get<T = any>(key: string): T {
+    if (!this.models.has(key)) {
+      InternalError.throw(`The "${key}" fixture is not loaded`);
+    }
+
+    return this.models.get(key);
+  }
+
+  /**
+   * Gets the models of a fixture set keyed by the fixture names.
+   */
+  all<T = any>(name: string): Record<string, T> {
+    return Object.fromEntries(
+      Array.from(this.models.entries())
+        .filter(([key]) => key.startsWith(`${name}.`))
+        .map(([key, model]) => [key.slice(name.length + 1), model])
+    );
+  }
+
+  add(key: string, model: any): void {
+    if (this.models.has(key)) {
+      InternalError.throw(`The "${key}" fixture is already loaded`);
+    }
+
+    this.models.set(key, model);
+  }
+}
+
+/**
+ * Defines named fixtures of a document class (or of a factory, where the
+ * fixtures override the factory's definition).  Fixtures may reference
+ * fixtures loaded before them, i.e. `(ref) => ({ author: ref('users.john') })`.
+ */
+export function defineFixtures<T>(
+  name: string,
+  source: Constructor<T> | Factory<T>,
+  fixtures: Record<string, Fixture<T>>
+): FixtureSet<T> {
+  return {
+    name,
+    factory:
+      source instanceof Factory ? source : new Factory(source, () => ({})),
+    fixtures
+  };
+}
+
+/**
+ * Creates the fixtures of the sets (in order) through their repositories.
+ */
+export async function loadFixtures(
+  manager: DocumentManager,
+  sets: FixtureSet[],
+  fixtures = new Fixtures()
+): Promise<Fixtures> {
+  const ref: FixtureReference = (key) => fixtures.get(key);
+
+  for (const { name, factory, fixtures: definitions } of sets) {
+    for (const [key, fixture] of Object.entries(definitions)) {
+      const model = await factory.create(
+        manager,
+        typeof fixture === 'function' ? fixture(ref) : fixture
+      );
+
+      fixtures.add(`${name}.${key}`, model);
+    }
+  }
+
+  return fixtures;
+}
@@ -0,0 +1,4 @@
+export * from './MemoryClient';
+export * from './MemoryCollection';
+export * from './factories';
+export * from './fixtures';
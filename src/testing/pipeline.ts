@@ -0,0 +1,65 @@
+import { InternalError } from '../errors';
+import {
+  clone,
+  evaluateExpression,
+  matchesFilter,
+  projectDocument,
+  setPath,
+  sortDocuments,
+  unsetPath
+} from './query';
+
+const stages: Record<
+  string,
+  (docs: Record<string, any>[], spec: any) => Record<string, any>[]
+> = {
+  $match: (docs, filter) => docs.filter((doc) => matchesFilter(doc, filter)),
+  $sort: (docs, sort) => sortDocuments(docs, sort),
+  $skip: (docs, skip: number) => docs.slice(skip),
+  $limit: (docs, limit: number) => docs.slice(0, limit),
+  $project: (docs, projection) =>
+    docs.map((doc) => projectDocument(doc, projection)),
+  $set: (docs, fields) =>
+    docs.map((doc) => {
+      const result = clone(doc);
+      Object.entries(fields).forEach(([path, expression]) =>
+        setPath(result, path, clone(evaluateExpression(expression, doc)))
+      );
+
+      return result;
+    }),
+  $addFields: (docs, fields) => stages.$set(docs, fields),
+  $unset: (docs, paths: string | string[]) =>
+    docs.map((doc) => {
+      const result = clone(doc);
+      [].concat(paths).forEach((path) => unsetPath(result, path));
+
+      return result;
+    }),
+  $replaceWith: (docs, expression) =>
+    docs.map((doc) => clone(evaluateExpression(expression, doc))),
+  $replaceRoot: (docs, { newRoot }) => stages.$replaceWith(docs, newRoot),
+  $count: (docs, field: string) =>
+    docs.length ? [{ [field]: docs.length }] : []
+};
+
+/**
+ * Runs the subset of aggregation stages supported by the in-memory
+ * collection.
+ */
+export function runPipeline(
+  docs: Record<string, any>[],
+  pipeline: Record<string, any>[]
+): Record<string, any>[] {
+  return pipeline.reduce<Record<string, any>[]>((result, stage) => {
+    const [name] = Object.keys(stage);
+
+    if (!stages[name]) {
+      InternalError.throw(
+        `The in-memory collection does not support the "${name}" stage`
+      );
+    }
+
+    return stages[name](result, stage[name]);
+  }, docs);
+}
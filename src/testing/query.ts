@@ -0,0 +1,521 @@
+import { InternalError } from '../errors';
+import { isEqual, isPlainObject } from '../utils';
+
+/**
+ * Deeply copies documents so stored documents can't be changed by reference
+ * (BSON values like `ObjectId` are immutable and kept as they are).
+ */
+export function clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clone) as unknown as T;
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as unknown as T;
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, clone(v)])
+    ) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Gets the value at the dotted path (`undefined` when it doesn't exist).
+ */
+export function getPath(doc: any, path: string): any {
+  return path
+    .split('.')
+    .reduce(
+      (value, part) =>
+        value !== null && typeof value === 'object' ? value[part] : undefined,
+      doc
+    );
+}
+
+/**
+ * Gets the candidate values of the dotted path the way MongoDB resolves
+ * queries, i.e. `tags.name` resolves the `name` of every item of `tags`.
+ */
+export function resolvePath(value: any, parts: string[]): any[] {
+  if (!parts.length) {
+    return [value];
+  }
+
+  const [part, ...rest] = parts;
+
+  if (Array.isArray(value)) {
+    const values = value
+      .filter((item) => isPlainObject(item) || Array.isArray(item))
+      .flatMap((item) => resolvePath(item, parts));
+
+    return /^\d+$/.test(part)
+      ? [...resolvePath(value[Number(part)], rest), ...values]
+      : values.length
+      ? values
+      : [undefined];
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return resolvePath(value[part], rest);
+  }
+
+  return [undefined];
+}
+
+/**
+ * Sets the value at the dotted path, creating missing objects on the way.
+ */
+export function setPath(doc: any, path: string, value: any): void {
+  const parts = path.split('.');
+  const last = parts.pop();
+
+  const parent = parts.reduce((current, part) => {
+    if (current[part] === null || typeof current[part] !== 'object') {
+      current[part] = {};
+    }
+
+    return current[part];
+  }, doc);
+
+  parent[last] = value;
+}
+
+export function unsetPath(doc: any, path: string): void {
+  const parts = path.split('.');
+  const last = parts.pop();
+  const parent = getPath(doc, parts.join('.')) ?? (parts.length ? null : doc);
+
+  if (Array.isArray(parent)) {
+    // unset array items become null
+    if (/^\d+$/.test(last) && Number(last) < parent.length) {
+      parent[Number(last)] = null;
+    }
+  } else if (parent !== null && typeof parent === 'object') {
+    delete parent[last];
+  }
+}
+
+// the BSON comparison order of types
+function typeOrder(value: any): number {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  if (typeof value === 'number' || value?._bsontype === 'Decimal128') {
+    return 2;
+  }
+  if (typeof value === 'string') {
+    return 3;
+  }
+  if (Array.isArray(value)) {
+    return 5;
+  }
+  if (value?._bsontype === 'Binary') {
+    return 6;
+  }
+  if (value?._bsontype === 'ObjectId' || value?._bsontype === 'ObjectID') {
+    return 7;
+  }
+  if (typeof value === 'boolean') {
+    return 8;
+  }
+  if (value instanceof Date) {
+    return 9;
+  }
+  if (value instanceof RegExp) {
+    return 11;
+  }
+
+  return 4;
+}
+
+/**
+ * Compares two values in the BSON sort order.
+ */
+export function compareValues(a: any, b: any): number {
+  const order = typeOrder(a) - typeOrder(b);
+  if (order !== 0) {
+    return order;
+  }
+
+  if (isEqual(a ?? null, b ?? null)) {
+    return 0;
+  }
+
+  if (a instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  if (typeof a === 'number' || typeof a === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  if (typeof a === 'string') {
+    return a < b ? -1 : 1;
+  }
+  if (a?._bsontype) {
+    return a.toString() < b.toString() ? -1 : 1;
+  }
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const compared = compareValues(a[i], b[i]);
+      if (compared !== 0) {
+        return compared;
+      }
+    }
+
+    return a.length - b.length;
+  }
+
+  return compareValues(Object.entries(a).flat(), Object.entries(b).flat());
+}
+
+function isOperatorObject(value: any): boolean {
+  const keys = isPlainObject(value) ? Object.keys(value) : [];
+
+  return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+}
+
+// values of arrays are compared by their items & as a whole
+function expand(values: any[]): any[] {
+  return values.flatMap((value) =>
+    Array.isArray(value) ? [...value, value] : [value]
+  );
+}
+
+function equals(value: any, expected: any): boolean {
+  if (expected instanceof RegExp) {
+    return typeof value === 'string'
+      ? expected.test(value)
+      : isEqual(value, expected);
+  }
+
+  return isEqual(value ?? null, expected ?? null);
+}
+
+function compares(
+  values: any[],
+  expected: any,
+  test: (compared: number) => boolean
+): boolean {
+  return expand(values).some(
+    (value) =>
+      typeOrder(value) === typeOrder(expected) &&
+      value !== undefined &&
+      test(compareValues(value, expected))
+  );
+}
+
+const operators: Record<
+  string,
+  (values: any[], expected: any, condition: Record<string, any>) => boolean
+> = {
+  $eq: (values, expected) =>
+    expand(values).some((value) => equals(value, expected)),
+  $ne: (values, expected) => !operators.$eq(values, expected, {}),
+  $gt: (values, expected) => compares(values, expected, (c) => c > 0),
+  $gte: (values, expected) => compares(values, expected, (c) => c >= 0),
+  $lt: (values, expected) => compares(values, expected, (c) => c < 0),
+  $lte: (values, expected) => compares(values, expected, (c) => c <= 0),
+  $in: (values, expected: any[]) =>
+    expected.some((item) => operators.$eq(values, item, {})),
+  $nin: (values, expected: any[]) => !operators.$in(values, expected, {}),
+  $exists: (values, expected) =>
+    values.some((value) => value !== undefined) === !!expected,
+  $regex: (values, expected, { $options }) => {
+    const regex =
+      expected instanceof RegExp
+        ? new RegExp(expected.source, $options ?? expected.flags)
+        : new RegExp(expected, $options);
+
+    return expand(values).some(
+      (value) => typeof value === 'string' && regex.test(value)
+    );
+  },
+  // used by `$regex`
+  $options: () => true,
+  $not: (values, expected) =>
+    !(expected instanceof RegExp
+      ? operators.$regex(values, expected, {})
+      : matchesCondition(values, expected)),
+  $size: (values, expected) =>
+    values.some((value) => Array.isArray(value) && value.length === expected),
+  $all: (values, expected: any[]) =>
+    expected.length > 0 &&
+    expected.every((item) => operators.$eq(values, item, {})),
+  $elemMatch: (values, expected) =>
+    values.some(
+      (value) =>
+        Array.isArray(value) &&
+        value.some((item) =>
+          isOperatorObject(expected) &&
+          !['$and', '$or', '$nor'].some((key) => key in expected)
+            ? matchesCondition([item], expected)
+            : isPlainObject(item) && matchesFilter(item, expected)
+        )
+    )
+};
+
+/**
+ * Checks if any of the resolved values matches the condition, i.e.
+ * `{ $gte: 1 }` or an equality value.
+ */
+export function matchesCondition(values: any[], condition: any): boolean {
+  if (condition instanceof RegExp) {
+    return operators.$regex(values, condition, {});
+  }
+
+  if (!isOperatorObject(condition)) {
+    return operators.$eq(values, condition, {});
+  }
+
+  return Object.entries(condition).every(([operator, expected]) => {
+    if (!operators[operator]) {
+      InternalError.throw(
+        `The in-memory collection does not support the "${operator}" query operator`
+      );
+    }
+
+    return operators[operator](values, expected, condition);
+  });
+}
+
+/**
+ * Checks if the document matches the query.
+ */
+export function matchesFilter(
+  doc: Record<string, any>,
+  filter: Record<string, any> = {}
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return condition.every((f: any) => matchesFilter(doc, f));
+      case '$or':
+        return condition.some((f: any) => matchesFilter(doc, f));
+      case '$nor':
+        return !condition.some((f: any) => matchesFilter(doc, f));
+      case '$comment':
+        return true;
+      case '$expr':
+        return !!evaluateExpression(condition, doc);
+    }
+
+    if (key.startsWith('$')) {
+      InternalError.throw(
+        `The in-memory collection does not support the "${key}" query operator`
+      );
+    }
+
+    return matchesCondition(resolvePath(doc, key.split('.')), condition);
+  });
+}
+
+/**
+ * Sorts the documents by a `{ field: 1 | -1 }` specification.
+ */
+export function sortDocuments<T>(docs: T[], sort: any): T[] {
+  const entries: [string, any][] = Array.isArray(sort)
+    ? sort.map((entry): [string, any] =>
+        Array.isArray(entry) ? [entry[0], entry[1]] : [entry, 1]
+      )
+    : typeof sort === 'string'
+    ? [[sort, 1]]
+    : sort instanceof Map
+    ? [...sort.entries()]
+    : Object.entries(sort || {});
+
+  if (!entries.length) {
+    return docs;
+  }
+
+  return [...docs].sort((a, b) => {
+    for (const [path, direction] of entries) {
+      const descending = direction === -1 || direction === 'desc';
+      const compared = compareValues(
+        getSortKey(getPath(a, path), descending),
+        getSortKey(getPath(b, path), descending)
+      );
+
+      if (compared !== 0) {
+        return descending ? -compared : compared;
+      }
+    }
+
+    return 0;
+  });
+}
+
+/**
+ * Arrays sort by their smallest item ascending and their largest item
+ * descending (empty arrays sort like missing fields).
+ */
+function getSortKey(value: any, descending: boolean): any {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+
+  return value
+    .slice(1)
+    .reduce(
+      (key, item) =>
+        compareValues(item, key) * (descending ? -1 : 1) < 0 ? item : key,
+      value[0]
+    );
+}
+
+/**
+ * Applies an inclusion (`{ name: 1 }`) or exclusion (`{ name: 0 }`)
+ * projection, `_id` is included unless excluded.
+ */
+export function projectDocument(
+  doc: Record<string, any>,
+  projection?: Record<string, any>
+): Record<string, any> {
+  const entries = Object.entries(projection || {});
+
+  if (!entries.length) {
+    return doc;
+  }
+
+  // `{ _id: 1 }` on its own is an inclusion projection
+  const isInclusion = entries.some(
+    ([path, value]) => !!value && (path !== '_id' || entries.length === 1)
+  );
+
+  if (!isInclusion) {
+    const projected = clone(doc);
+    entries
+      .filter(([, value]) => !value)
+      .forEach(([path]) => unsetPath(projected, path));
+
+    return projected;
+  }
+
+  const projected: Record<string, any> = {};
+  if (projection._id !== 0 && projection._id !== false && '_id' in doc) {
+    projected._id = doc._id;
+  }
+
+  entries
+    .filter(([path, value]) => path !== '_id' && !!value)
+    .forEach(([path, value]) => {
+      const included =
+        typeof value === 'object'
+          ? evaluateExpression(value, doc)
+          : getPath(doc, path);
+
+      if (included !== undefined) {
+        setPath(projected, path, clone(included));
+      }
+    });
+
+  return projected;
+}
+
+const expressions: Record<string, (args: any[], root: any) => any> = {
+  $ifNull: (args) =>
+    args.find((arg) => arg !== null && arg !== undefined) ??
+    args[args.length - 1],
+  $add: (args) =>
+    args.some((arg) => arg instanceof Date)
+      ? new Date(args.reduce((sum, arg) => sum + Number(arg), 0))
+      : args.reduce((sum, arg) => sum + arg, 0),
+  $subtract: ([a, b]) =>
+    a instanceof Date && !(b instanceof Date)
+      ? new Date(a.getTime() - b)
+      : Number(a) - Number(b),
+  $multiply: (args) => args.reduce((product, arg) => product * arg, 1),
+  $divide: ([a, b]) => a / b,
+  $concat: (args) =>
+    args.some((arg) => arg === null || arg === undefined)
+      ? null
+      : args.join(''),
+  $concatArrays: (args) => [].concat(...args),
+  $toUpper: ([value]) => (value ?? '').toString().toUpperCase(),
+  $toLower: ([value]) => (value ?? '').toString().toLowerCase(),
+  $size: ([value]) => value.length,
+  $mergeObjects: (args) =>
+    Object.assign(
+      {},
+      ...args.filter((arg) => arg !== null && arg !== undefined)
+    ),
+  $cond: ([condition, then, otherwise]) => (condition ? then : otherwise),
+  $eq: ([a, b]) => compareValues(a, b) === 0,
+  $ne: ([a, b]) => compareValues(a, b) !== 0,
+  $gt: ([a, b]) => compareValues(a, b) > 0,
+  $gte: ([a, b]) => compareValues(a, b) >= 0,
+  $lt: ([a, b]) => compareValues(a, b) < 0,
+  $lte: ([a, b]) => compareValues(a, b) <= 0,
+  $and: (args) => args.every(Boolean),
+  $or: (args) => args.some(Boolean),
+  $not: ([value]) => !value,
+  $in: ([value, array]) => array.some((item: any) => isEqual(item, value))
+};
+
+/**
+ * Evaluates the subset of aggregation expressions used by update pipelines.
+ */
+export function evaluateExpression(expression: any, root: any): any {
+  if (typeof expression === 'string' && expression.startsWith('$$')) {
+    const [variable, ...path] = expression.slice(2).split('.');
+
+    if (variable === 'NOW') {
+      return new Date();
+    }
+    if (variable !== 'ROOT' && variable !== 'CURRENT') {
+      InternalError.throw(
+        `The in-memory collection does not support the "$$${variable}" variable`
+      );
+    }
+
+    return path.length ? getPath(root, path.join('.')) : root;
+  }
+
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return getPath(root, expression.slice(1));
+  }
+
+  if (Array.isArray(expression)) {
+    return expression.map((e) => evaluateExpression(e, root));
+  }
+
+  if (!isPlainObject(expression)) {
+    return expression;
+  }
+
+  const [operator] = Object.keys(expression);
+  if (operator?.startsWith('$')) {
+    const args = expression[operator];
+
+    if (operator === '$literal') {
+      return args;
+    }
+
+    if (operator === '$cond' && isPlainObject(args)) {
+      return evaluateExpression(
+        { $cond: [args.if, args.then, args.else] },
+        root
+      );
+    }
+
+    if (!expressions[operator]) {
+      InternalError.throw(
+        `The in-memory collection does not support the "${operator}" expression`
+      );
+    }
+
+    return expressions[operator](
+      evaluateExpression(Array.isArray(args) ? args : [args], root),
+      root
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(expression).map(([key, value]) => [
+      key,
+      evaluateExpression(value, root)
+    ])
+  );
+}
@@ -0,0 +1,208 @@
+import { InternalError } from '../errors';
+import { isEqual, isPlainObject } from '../utils';
+import { runPipeline } from './pipeline';
+import {
+  clone,
+  compareValues,
+  getPath,
+  matchesCondition,
+  matchesFilter,
+  setPath,
+  sortDocuments,
+  unsetPath
+} from './query';
+
+type UpdateOperator = (
+  doc: Record<string, any>,
+  path: string,
+  value: any
+) => void;
+
+function getArray(doc: Record<string, any>, path: string): any[] {
+  const array = getPath(doc, path);
+
+  if (array === undefined || array === null) {
+    const created: any[] = [];
+    setPath(doc, path, created);
+
+    return created;
+  }
+
+  if (!Array.isArray(array)) {
+    InternalError.throw(`The "${path}" field is not an array`);
+  }
+
+  return array;
+}
+
+// `$pull` conditions are queries of the items
+function matchesItem(item: any, condition: any): boolean {
+  if (
+    isPlainObject(condition) &&
+    Object.keys(condition).some((key) => !key.startsWith('$'))
+  ) {
+    return isPlainObject(item) && matchesFilter(item, condition);
+  }
+
+  return matchesCondition([item], condition);
+}
+
+const operators: Record<string, UpdateOperator> = {
+  $set: (doc, path, value) => setPath(doc, path, clone(value)),
+  $setOnInsert: (doc, path, value) => setPath(doc, path, clone(value)),
+  $unset: (doc, path) => unsetPath(doc, path),
+  $inc: (doc, path, value) =>
+    setPath(doc, path, (getPath(doc, path) ?? 0) + value),
+  $mul: (doc, path, value) =>
+    setPath(doc, path, (getPath(doc, path) ?? 0) * value),
+  $min: (doc, path, value) => {
+    const current = getPath(doc, path);
+    if (current === undefined || compareValues(value, current) < 0) {
+      setPath(doc, path, clone(value));
+    }
+  },
+  $max: (doc, path, value) => {
+    const current = getPath(doc, path);
+    if (current === undefined || compareValues(value, current) > 0) {
+      setPath(doc, path, clone(value));
+    }
+  },
+  $rename: (doc, path, to: string) => {
+    const value = getPath(doc, path);
+    if (value !== undefined) {
+      unsetPath(doc, path);
+      setPath(doc, to, value);
+    }
+  },
+  $currentDate: (doc, path) => setPath(doc, path, new Date()),
+  $push: (doc, path, value) => {
+    const array = getArray(doc, path);
+    const hasModifiers = isPlainObject(value) && '$each' in value;
+    const items = clone(hasModifiers ? value.$each : [value]);
+
+    array.splice(
+      hasModifiers && typeof value.$position === 'number'
+        ? value.$position
+        : array.length,
+      0,
+      ...items
+    );
+
+    if (hasModifiers && value.$sort !== undefined) {
+      const sorted = isPlainObject(value.$sort)
+        ? sortDocuments(array, value.$sort)
+        : [...array].sort(
+            (a, b) => compareValues(a, b) * (value.$sort === -1 ? -1 : 1)
+          );
+      array.splice(0, array.length, ...sorted);
+    }
+    if (hasModifiers && typeof value.$slice === 'number') {
+      const sliced =
+        value.$slice < 0
+          ? array.slice(value.$slice)
+          : array.slice(0, value.$slice);
+      array.splice(0, array.length, ...sliced);
+    }
+  },
+  $addToSet: (doc, path, value) => {
+    const array = getArray(doc, path);
+    const items =
+      isPlainObject(value) && '$each' in value ? value.$each : [value];
+
+    items
+      .filter((item: any) => !array.some((existing) => isEqual(existing, item)))
+      .forEach((item: any) => array.push(clone(item)));
+  },
+  $pull: (doc, path, condition) => {
+    const array = getPath(doc, path);
+    if (Array.isArray(array)) {
+      const kept = array.filter((item) => !matchesItem(item, condition));
+      array.splice(0, array.length, ...kept);
+    }
+  },
+  $pullAll: (doc, path, values: any[]) => {
+    const array = getPath(doc, path);
+    if (Array.isArray(array)) {
+      const kept = array.filter(
+        (item) => !values.some((value) => isEqual(item, value))
+      );
+      array.splice(0, array.length, ...kept);
+    }
+  },
+  $pop: (doc, path, value) => {
+    const array = getPath(doc, path);
+    if (Array.isArray(array)) {
+      value === -1 ? array.shift() : array.pop();
+    }
+  }
+};
+
+/**
+ * Applies an update (operators or a pipeline) to a copy of the document.
+ * `$setOnInsert` is only applied to documents inserted by upserts.
+ */
+export function applyUpdate(
+  doc: Record<string, any>,
+  update: Record<string, any> | Record<string, any>[],
+  isInsert = false
+): Record<string, any> {
+  if (Array.isArray(update)) {
+    return runPipeline([doc], update)[0];
+  }
+
+  const updated = clone(doc);
+
+  Object.entries(update).forEach(([operator, fields]) => {
+    if (!operators[operator]) {
+      InternalError.throw(
+        `The in-memory collection does not support the "${operator}" update operator`
+      );
+    }
+
+    if (operator === '$setOnInsert' && !isInsert) {
+      return;
+    }
+
+    Object.entries(fields).forEach(([path, value]) => {
+      if (path.split('.').some((part) => part.startsWith('$'))) {
+        InternalError.throw(
+          `The in-memory collection does not support positional updates ("${path}")`
+        );
+      }
+
+      operators[operator](updated, path, value);
+    });
+  });
+
+  return updated;
+}
+
+/**
+ * Creates the document inserted by an upsert from the equality conditions
+ * of the filter.
+ */
+export function createUpsertDocument(
+  filter: Record<string, any>
+): Record<string, any> {
+  const doc: Record<string, any> = {};
+
+  Object.entries(filter || {}).forEach(([key, condition]) => {
+    if (key === '$and') {
+      condition.forEach((f: Record<string, any>) =>
+        Object.assign(doc, createUpsertDocument(f))
+      );
+    } else if (!key.startsWith('$')) {
+      const isOperator =
+        isPlainObject(condition) &&
+        Object.keys(condition).some((k) => k.startsWith('$'));
+
+      if (!isOperator) {
+        setPath(doc, key, clone(condition));
+      } else if ('$eq' in condition) {
+        setPath(doc, key, clone(condition.$eq));
+      }
+    }
+  });
+
+  return doc;
+}
@@ -1,4 +1,4 @@
-import { ObjectId } from 'mongodb';
+import { BSONTypeAlias, ObjectId } from 'mongodb';
 import { Type } from './Type';
 
 export class ObjectIdType extends Type<ObjectId, ObjectId, string> {
@@ -6,6 +6,14 @@ export class ObjectIdType extends Type<ObjectId, ObjectId, string> {
     return 'ObjectId';
   }
 
+  get bsonType(): BSONTypeAlias {
+    return 'objectId';
+  }
+
+  toJSONSchema(): Record<string, any> {
+    return { type: 'string', format: 'objectid', pattern: '^[0-9a-fA-F]{24}$' };
+  }
+
   createJSValue(id?: ObjectId | string): ObjectId {
     if (typeof id === 'undefined') {
       return new ObjectId();
@@ -36,6 +44,16 @@ export class ObjectIdType extends Type<ObjectId, ObjectId, string> {
     return new ObjectId(id);
   }
 
+  convertToJSONValue(id?: ObjectId | string): string | undefined {
+    if (typeof id === 'undefined' || id === null) {
+      return id as undefined;
+    }
+
+    this.assertValidJSValue(id as ObjectId);
+
+    return new ObjectId(id).toHexString();
+  }
+
   isValidDatabaseValue(id: ObjectId | string): boolean {
     return ObjectId.isValid(id);
   }
@@ -0,0 +1,117 @@
+import { BSONTypeAlias } from 'mongodb';
+import { Type } from './Type';
+import { DocumentMetadata } from '../metadata';
+import { isPlainObject } from '../utils/isPlainObject';
+
+/**
+ * Stores a `@Reference()` as the referenced document's id using the id
+ * field's type.  Referenced models (and their ids) are both accepted.
+ */
+export class ReferenceType<Model = any> extends Type<Model | any, any> {
+  constructor(private readonly resolveMetadata: () => DocumentMetadata<Model>) {
+    super();
+  }
+
+  get name(): string {
+    return 'Reference';
+  }
+
+  /**
+   * References are stored as the referenced document's id.
+   */
+  get bsonType(): BSONTypeAlias | BSONTypeAlias[] | undefined {
+    return this.metadata.idField.type?.bsonType;
+  }
+
+  /**
+   * References are exported as the referenced document's id.
+   */
+  toJSONSchema(): Record<string, any> {
+    return this.metadata.idField.type?.toJSONSchema?.() || {};
+  }
+
+  /**
+   * The referenced document's metadata.
+   */
+  get metadata(): DocumentMetadata<Model> {
+    return this.resolveMetadata();
+  }
+
+  createJSValue(value?: any): any {
+    return value;
+  }
+
+  convertToDatabaseValue(value?: any): any {
+    if (typeof value === 'undefined' || value === null) {
+      return value;
+    }
+
+    const id = this.toId(value);
+    const idType = this.metadata.idField.type;
+
+    return idType ? idType.convertToDatabaseValue(id) : id;
+  }
+
+  convertToJSValue(value?: any): any {
+    if (typeof value === 'undefined' || value === null || this.isModel(value)) {
+      return value;
+    }
+
+    if (isPlainObject(value)) {
+      return this.metadata.init(value);
+    }
+
+    const idType = this.metadata.idField.type;
+
+    return idType ? idType.convertToJSValue(value) : value;
+  }
+
+  /**
+   * Populated references are converted to the referenced model's JSON.
+   */
+  convertToJSONValue(value?: any): any {
+    if (this.isModel(value)) {
+      return this.metadata.toJSON(value);
+    }
+
+    const idType = this.metadata.idField.type;
+
+    return idType
+      ? idType.convertToJSONValue(value)
+      : super.convertToJSONValue(value);
+  }
+
+  convertFromJSONValue(value?: any): any {
+    if (typeof value === 'undefined' || value === null) {
+      return value;
+    }
+
+    if (isPlainObject(value)) {
+      return this.metadata.fromJSON(value);
+    }
+
+    const idType = this.metadata.idField.type;
+
+    return idType ? idType.convertFromJSONValue(value) : value;
+  }
+
+  /**
+   * Checks if the value is a populated model.
+   */
+  isModel(value: any): value is Model {
+    return value instanceof this.metadata.DocumentClass;
+  }
+
+  /**
+   * Gets the id of a model (or returns the value if it's already an id).
+   */
+  toId(value: any): any {
+    const { propertyName } = this.metadata.idField;
+
+    if (this.isModel(value) || isPlainObject(value)) {
+      return value[propertyName];
+    }
+
+    return value;
+  }
+}
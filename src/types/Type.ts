@@ -1,5 +1,7 @@
+import { BSONTypeAlias } from 'mongodb';
 import { Constructor } from '../typings';
 import { ValidationError } from '../errors';
+import { toJSONValue } from '../utils/json';
 
 export enum Mode {
   DATABASE,
@@ -16,6 +18,20 @@ export class Type<JSType = any, DBType = JSType, ConvertibleTypes = JSType> {
     return 'raw';
   }
 
+  /**
+   * The BSON type(s) of the database value, used for `$jsonSchema`
+   * validators.  Raw values can be of any type.
+   */
+  get bsonType(): BSONTypeAlias | BSONTypeAlias[] | undefined {
+    return undefined;
+  }
+
+  /**
+   * Creates the JSON Schema of the JS value for exported model schemas.
+   * Fields of types without it accept any value.
+   */
+  toJSONSchema?(): Record<string, any>;
+
   /**
    * Creates the JS value.  Normally you want to support potential JSON values
    * to create the type's value from it's JSON representation.
@@ -42,6 +58,21 @@ export class Type<JSType = any, DBType = JSType, ConvertibleTypes = JSType> {
     return value as JSType;
   }
 
+  /**
+   * Converts the JS representation to the JSON representation (i.e. for API
+   * responses).
+   */
+  convertToJSONValue(value?: JSType | ConvertibleTypes): any {
+    return toJSONValue(value);
+  }
+
+  /**
+   * Converts the JSON representation to the JS representation.
+   */
+  convertFromJSONValue(value?: any): JSType | undefined {
+    return value === null ? null : this.convertToJSValue(value);
+  }
+
   /**
    * Checks if JS representation is valid.
    *
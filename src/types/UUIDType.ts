@@ -1,4 +1,4 @@
-import { Binary } from 'mongodb';
+import { Binary, BSONTypeAlias } from 'mongodb';
 import { v4, stringify, parse, validate } from 'uuid';
 import { Type } from './Type';
 
@@ -7,6 +7,14 @@ export class UUIDType extends Type<string, Binary> {
     return 'UUID';
   }
 
+  get bsonType(): BSONTypeAlias {
+    return 'binData';
+  }
+
+  toJSONSchema(): Record<string, any> {
+    return { type: 'string', format: 'uuid' };
+  }
+
   createJSValue(uuid?: string): string {
     if (typeof uuid === 'undefined') {
       return v4();
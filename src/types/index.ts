@@ -1,3 +1,4 @@
 export * from './ObjectIdType';
+export * from './ReferenceType';
 export * from './Type';
 export * from './UUIDType';
@@ -0,0 +1,432 @@
+import { AnyBulkWriteOperation, Collection } from 'mongodb';
+import { DocumentManager, WithTransactionOptions } from '../DocumentManager';
+import { DocumentMetadata } from '../metadata';
+import { EventSubscriberMethods, Events } from '../events';
+import { InternalError, OptimisticLockError } from '../errors';
+import { diff } from '../utils';
+import { getSnapshot, setSnapshot } from '../hydration';
+
+interface ScheduledWrite {
+  meta: DocumentMetadata;
+  model: any;
+  before: EventSubscriberMethods;
+  after: EventSubscriberMethods;
+  event: Events;
+  operation?: AnyBulkWriteOperation;
+  doc?: Record<string, any>;
+}
+
+/**
+ * Tracks the models of a forked `DocumentManager`.
+ *
+ * Models read through the fork are kept in an identity map (so the same
+ * document is always the same instance), new models are scheduled with
+ * `persist()`, removed ones with `remove()`, and `flush()` writes every
+ * change with a `bulkWrite` per collection inside a transaction.  Managed
+ * models are only updated with the fields that changed since they were
+ * loaded.
+ */
+export class UnitOfWork {
+  protected identityMap = new Map<DocumentMetadata, Map<string, any>>();
+  protected managed = new Map<any, DocumentMetadata>();
+  protected scheduledInserts = new Map<any, DocumentMetadata>();
+  protected scheduledDeletes = new Map<any, DocumentMetadata>();
+
+  constructor(public readonly manager: DocumentManager) {}
+
+  // -------------------------------------------------------------------------
+  // Public Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Gets a managed model by it's id.
+   */
+  tryGet<Model, Document>(
+    meta: DocumentMetadata<Model, Document>,
+    id: any
+  ): Model | undefined {
+    return this.identityMap.get(this.getRootMetadata(meta))?.get(String(id));
+  }
+
+  /**
+   * Hydrates the document unless it's model is already managed.
+   */
+  fromDB<Model, Document>(
+    meta: DocumentMetadata<Model, Document>,
+    doc: Record<string, any>
+  ): Model {
+    const { fieldName, type } = meta.idField;
+    const existing = this.tryGet(
+      meta,
+      type ? type.convertToJSValue(doc[fieldName]) : doc[fieldName]
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const model = meta.fromDB(doc, { snapshot: true });
+    this.register(this.getMetadataForModel(model), model);
+
+    return model;
+  }
+
+  /**
+   * Checks if the model is managed (or scheduled to be inserted).
+   */
+  contains(model: any): boolean {
+    return this.managed.has(model) || this.scheduledInserts.has(model);
+  }
+
+  /**
+   * Schedules the model to be inserted on `flush()`.  Managed models are
+   * always checked for changes.
+   */
+  persist(model: any): void {
+    const meta = this.getMetadataForModel(model);
+
+    if (this.scheduledDeletes.has(model)) {
+      this.scheduledDeletes.delete(model);
+    } else if (!this.managed.has(model)) {
+      this.scheduledInserts.set(model, meta);
+    }
+  }
+
+  /**
+   * Schedules the model to be deleted on `flush()`.
+   */
+  remove(model: any): void {
+    const meta = this.getMetadataForModel(model);
+
+    if (this.scheduledInserts.has(model)) {
+      this.scheduledInserts.delete(model);
+    } else if (this.managed.has(model)) {
+      this.scheduledDeletes.set(model, meta);
+    }
+  }
+
+  /**
+   * Detaches the model from the unit of work.
+   */
+  detach(model: any): void {
+    const meta = this.managed.get(model);
+
+    if (meta) {
+      this.identityMap
+        .get(this.getRootMetadata(meta))
+        ?.delete(String(model[meta.idField.propertyName]));
+    }
+
+    this.managed.delete(model);
+    this.scheduledInserts.delete(model);
+    this.scheduledDeletes.delete(model);
+  }
+
+  clear(): void {
+    this.identityMap.clear();
+    this.managed.clear();
+    this.scheduledInserts.clear();
+    this.scheduledDeletes.clear();
+  }
+
+  /**
+   * Writes all the scheduled inserts & deletes and the changes of managed
+   * models.
+   */
+  async flush(options?: WithTransactionOptions): Promise<void> {
+    const writes = await this.computeWrites();
+
+    if (!writes.length) {
+      return;
+    }
+
+    await this.manager.withTransaction(async (session) => {
+      writes.forEach((write) => {
+        write.event.session = session;
+      });
+
+      for (const [collection, operations] of this.groupByCollection(writes)) {
+        const result = await collection.bulkWrite(operations, {
+          session,
+          ordered: true
+        });
+
+        this.failIfVersionMismatch(operations, result.matchedCount);
+      }
+
+      // the "after" events join the transaction (i.e. outbox messages commit
+      // with the flush)
+      for (const write of writes) {
+        await this.manager.eventManager.dispatch(write.after, write.event);
+      }
+    }, options);
+
+    for (const write of writes) {
+      this.complete(write);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Protected Methods
+  // -------------------------------------------------------------------------
+
+  protected register(meta: DocumentMetadata, model: any): void {
+    const root = this.getRootMetadata(meta);
+    const id = String(model[meta.idField.propertyName]);
+
+    if (!this.identityMap.has(root)) {
+      this.identityMap.set(root, new Map());
+    }
+
+    this.identityMap.get(root).set(id, model);
+    this.managed.set(model, meta);
+
+    if (!getSnapshot(model)) {
+      setSnapshot(model, meta.toDB(model));
+    }
+  }
+
+  /**
+   * Dispatches the "before" events and computes the operations for each
+   * change.
+   */
+  protected async computeWrites(): Promise<ScheduledWrite[]> {
+    const writes: ScheduledWrite[] = [];
+
+    for (const [model, meta] of this.scheduledInserts) {
+      writes.push({
+        meta,
+        model,
+        before: EventSubscriberMethods.BeforeInsert,
+        after: EventSubscriberMethods.AfterInsert,
+        event: { meta, model }
+      });
+    }
+
+    for (const [model, meta] of this.managed) {
+      if (!this.scheduledDeletes.has(model)) {
+        writes.push({
+          meta,
+          model,
+          before: EventSubscriberMethods.BeforeReplace,
+          after: EventSubscriberMethods.AfterReplace,
+          event: { meta, model, filter: this.getIdFilter(meta, model) }
+        });
+      }
+    }
+
+    for (const [model, meta] of this.scheduledDeletes) {
+      writes.push({
+        meta,
+        model,
+        before: EventSubscriberMethods.BeforeDelete,
+        after: EventSubscriberMethods.AfterDelete,
+        event: meta.deletedAtField
+          ? { meta, filter: this.getIdFilter(meta, model), soft: true }
+          : { meta, filter: this.getIdFilter(meta, model) }
+      });
+    }
+
+    const changed: ScheduledWrite[] = [];
+
+    for (const write of writes) {
+      const { meta, model, before } = write;
+
+      // only dispatch events for managed models that changed
+      if (
+        before === EventSubscriberMethods.BeforeReplace &&
+        !this.hasChanges(meta, model)
+      ) {
+        continue;
+      }
+
+      await this.manager.eventManager.dispatch(before, write.event);
+
+      write.operation = this.createOperation(write);
+      changed.push(write);
+    }
+
+    return changed;
+  }
+
+  protected createOperation(write: ScheduledWrite): AnyBulkWriteOperation {
+    const { meta, model } = write;
+    const { fieldName } = meta.idField;
+    const id = meta.idField.type
+      ? meta.idField.type.convertToDatabaseValue(
+          model[meta.idField.propertyName]
+        )
+      : model[meta.idField.propertyName];
+
+    switch (write.before) {
+      case EventSubscriberMethods.BeforeInsert:
+        meta.setTimestamps(model);
+        meta.validate(model);
+        write.doc = meta.toDB(model);
+
+        return { insertOne: { document: write.doc } };
+      case EventSubscriberMethods.BeforeReplace: {
+        // "before" events may have changed the model
+        meta.setTimestamps(model, true);
+        meta.validate(model);
+        write.doc = meta.toDB(model);
+
+        const update = diff(getSnapshot(model), write.doc, [
+          fieldName,
+          ...this.getVersionFieldNames(meta)
+        ]);
+
+        return this.createVersionedUpdate(meta, model, id, update);
+      }
+      case EventSubscriberMethods.BeforeDelete: {
+        if (!meta.deletedAtField) {
+          return { deleteOne: { filter: { [fieldName]: id } } };
+        }
+
+        // soft deletes
+        const deletedAt = new Date();
+        const $set = { [meta.deletedAtField.fieldName]: deletedAt };
+        model[meta.deletedAtField.propertyName] = deletedAt;
+
+        if (meta.updatedAtField) {
+          $set[meta.updatedAtField.fieldName] = deletedAt;
+          model[meta.updatedAtField.propertyName] = deletedAt;
+        }
+
+        return this.createVersionedUpdate(meta, model, id, { $set });
+      }
+    }
+  }
+
+  /**
+   * Creates the update of the model, checking & incrementing its
+   * `@Version()` (optimistic locking).
+   */
+  protected createVersionedUpdate(
+    meta: DocumentMetadata,
+    model: any,
+    id: any,
+    update: Record<string, any>
+  ): AnyBulkWriteOperation {
+    const filter: Record<string, any> = { [meta.idField.fieldName]: id };
+
+    const version = this.getVersion(meta, model);
+    if (typeof version === 'number') {
+      filter[meta.versionField.fieldName] = version;
+      update['$inc'] = { [meta.versionField.fieldName]: 1 };
+    }
+
+    return { updateOne: { filter, update } };
+  }
+
+  protected complete(write: ScheduledWrite): void {
+    const { meta, model } = write;
+
+    switch (write.before) {
+      case EventSubscriberMethods.BeforeInsert:
+        this.scheduledInserts.delete(model);
+        setSnapshot(model, write.doc);
+        this.register(meta, model);
+        break;
+      case EventSubscriberMethods.BeforeReplace: {
+        const version = this.getVersion(meta, model);
+        if (typeof version === 'number') {
+          model[meta.versionField.propertyName] = version + 1;
+          write.doc[meta.versionField.fieldName] = version + 1;
+        }
+
+        setSnapshot(model, write.doc);
+        break;
+      }
+      case EventSubscriberMethods.BeforeDelete: {
+        // soft deletes increment the version
+        const version = this.getVersion(meta, model);
+        if (meta.deletedAtField && typeof version === 'number') {
+          model[meta.versionField.propertyName] = version + 1;
+        }
+
+        this.detach(model);
+        break;
+      }
+    }
+  }
+
+  protected hasChanges(meta: DocumentMetadata, model: any): boolean {
+    const update = diff(getSnapshot(model), meta.toDB(model), [
+      meta.idField.fieldName,
+      ...this.getVersionFieldNames(meta)
+    ]);
+
+    return Object.keys(update).length > 0;
+  }
+
+  protected getVersion(meta: DocumentMetadata, model: any): number | undefined {
+    return meta.versionField
+      ? model[meta.versionField.propertyName]
+      : undefined;
+  }
+
+  protected getVersionFieldNames(meta: DocumentMetadata): string[] {
+    return meta.versionField ? [meta.versionField.fieldName] : [];
+  }
+
+  /**
+   * Versioned updates only match the version the model was loaded with.
+   */
+  protected failIfVersionMismatch(
+    operations: AnyBulkWriteOperation[],
+    matchedCount: number
+  ): void {
+    const updates = operations.filter((operation) => 'updateOne' in operation);
+    const isVersioned = updates.some(
+      (operation) => '$inc' in (operation as any).updateOne.update
+    );
+
+    if (isVersioned && matchedCount < updates.length) {
+      OptimisticLockError.throw(
+        'Documents were modified or removed since they were loaded',
+        {
+          code: 'VERSION_MISMATCH',
+          expected: updates.length,
+          matched: matchedCount
+        }
+      );
+    }
+  }
+
+  protected groupByCollection(
+    writes: ScheduledWrite[]
+  ): Map<Collection, AnyBulkWriteOperation[]> {
+    const groups = new Map<string, [Collection, AnyBulkWriteOperation[]]>();
+
+    writes.forEach(({ meta, operation }) => {
+      const { collection } = meta;
+      const key = `${meta.db.databaseName}.${collection.collectionName}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, [collection, []]);
+      }
+
+      groups.get(key)[1].push(operation);
+    });
+
+    return new Map(groups.values());
+  }
+
+  protected getIdFilter(meta: DocumentMetadata, model: any) {
+    const { propertyName } = meta.idField;
+
+    return { [propertyName]: model[propertyName] };
+  }
+
+  protected getRootMetadata(meta: DocumentMetadata): DocumentMetadata {
+    return meta.discriminatorRoot || meta;
+  }
+
+  protected getMetadataForModel(model: any): DocumentMetadata {
+    if (!model || typeof model !== 'object') {
+      InternalError.throw('Only models can be managed by the unit of work');
+    }
+
+    return this.manager.getMetadataFor(model.constructor);
+  }
+}
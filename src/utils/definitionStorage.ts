@@ -3,7 +3,8 @@ import {
   DocumentDefinition,
   FieldDefinition,
   ParentDefinition,
-  DiscriminatorDefinition
+  DiscriminatorDefinition,
+  IndexDefinition
 } from '../metadata';
 
 type FieldName = string;
@@ -12,15 +13,18 @@ type DocumentStorage = Map<Constructor, DocumentDefinition>;
 type FieldStorage = Map<Constructor, Map<FieldName, FieldDefinition>>;
 type ParentStorage = Map<Constructor, ParentDefinition>;
 type DiscriminatorStorage = Map<Constructor, DiscriminatorDefinition>;
+type IndexStorage = Map<Constructor, IndexDefinition[]>;
 
 export const definitionStorage: {
   documents: DocumentStorage;
   fields: FieldStorage;
   parents: ParentStorage;
   discriminators: DiscriminatorStorage;
+  indexes: IndexStorage;
 } = (global as any).__TYPE_MONGODB_STORAGE__ || {
   documents: new Map(),
   fields: new Map(),
   parents: new Map(),
-  discriminators: new Map()
+  discriminators: new Map(),
+  indexes: new Map()
 };
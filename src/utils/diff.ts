@@ -0,0 +1,86 @@
+import { isEqual } from './isEqual';
+import { isPlainObject } from './isPlainObject';
+
+export interface DiffUpdate {
+  $set?: Record<string, any>;
+  $unset?: Record<string, ''>;
+}
+
+/**
+ * Computes the update that turns the `original` document into the `current`
+ * document.  Embedded documents & arrays of the same length are diffed by
+ * their dotted paths, otherwise the whole value is set.  Top level fields in
+ * `ignore` (i.e. `_id`) are never updated.
+ *
+ * For example...
+ *   from) { name: "John", address: { city: "LA", state: "CA" } }
+ *   to) { address: { city: "SF", state: "CA" } }
+ *   update) { $set: { "address.city": "SF" }, $unset: { name: "" } }
+ */
+export function diff(
+  original: Record<string, any>,
+  current: Record<string, any>,
+  ignore: string[] = []
+): DiffUpdate {
+  const update: DiffUpdate = {};
+
+  diffObject(omit(original, ignore), omit(current, ignore), '', update);
+
+  return update;
+}
+
+function diffObject(
+  original: Record<string, any>,
+  current: Record<string, any>,
+  prefix: string,
+  update: DiffUpdate
+): void {
+  Object.keys(current).forEach((key) => {
+    diffValue(original[key], current[key], `${prefix}${key}`, update);
+  });
+
+  Object.keys(original).forEach((key) => {
+    if (
+      typeof original[key] !== 'undefined' &&
+      typeof current[key] === 'undefined'
+    ) {
+      update.$unset = update.$unset || {};
+      update.$unset[`${prefix}${key}`] = '';
+    }
+  });
+}
+
+function diffValue(
+  original: any,
+  current: any,
+  path: string,
+  update: DiffUpdate
+): void {
+  if (typeof current === 'undefined' || isEqual(original, current)) {
+    return;
+  }
+
+  if (isPlainObject(original) && isPlainObject(current)) {
+    return diffObject(original, current, `${path}.`, update);
+  }
+
+  if (
+    Array.isArray(original) &&
+    Array.isArray(current) &&
+    original.length === current.length
+  ) {
+    return current.forEach((value, i) =>
+      diffValue(original[i], value, `${path}.${i}`, update)
+    );
+  }
+
+  update.$set = update.$set || {};
+  update.$set[path] = current;
+}
+
+function omit(doc: Record<string, any>, keys: string[]): Record<string, any> {
+  const copy = { ...(doc || {}) };
+  keys.forEach((key) => delete copy[key]);
+
+  return copy;
+}
@@ -0,0 +1,92 @@
+import { FieldMetadata, FieldsMetadata } from '../metadata';
+
+export interface ResolvedFieldPath {
+  /**
+   * The database path, i.e. `reviews.0.uid`.
+   */
+  path: string;
+
+  /**
+   * The field at the end of the path (if every part of the path is mapped).
+   */
+  field?: FieldMetadata;
+
+  /**
+   * Whether or not every property in the path is a mapped field.
+   */
+  isResolved: boolean;
+}
+
+/**
+ * Translates a property path to it's database path.
+ *
+ * For example...
+ *   from) "reviews.0.uuid"
+ *   to) "reviews.0.uid"
+ */
+export function resolveFieldPath(
+  fields: FieldsMetadata,
+  path: string
+): ResolvedFieldPath {
+  let field: FieldMetadata;
+  let currentFields = fields;
+  let isResolved = true;
+
+  const fixedPaths: string[] = [];
+
+  for (const part of path.split('.')) {
+    // ignore array access (`addresses.0.state`) & positional operators (`addresses.$.state`)
+    if (!isNaN(parseInt(part)) || part.startsWith('$')) {
+      fixedPaths.push(part);
+      continue;
+    }
+
+    field = currentFields?.get(part);
+
+    if (!field) {
+      isResolved = false;
+    }
+
+    currentFields = field?.embeddedMetadata?.fields;
+    fixedPaths.push(field?.fieldName || part);
+  }
+
+  return {
+    path: fixedPaths.join('.'),
+    field: isResolved ? field : undefined,
+    isResolved
+  };
+}
+
+/**
+ * Translates a database path to it's property path.
+ *
+ * For example...
+ *   from) "reviews.0.uid"
+ *   to) "reviews.0.uuid"
+ */
+export function resolvePropertyPath(
+  fields: FieldsMetadata,
+  path: string
+): string {
+  let currentFields = fields;
+
+  const fixedPaths: string[] = [];
+
+  for (const part of path.split('.')) {
+    // ignore array access (`addresses.0.state`)
+    if (!isNaN(parseInt(part)) || part.startsWith('$')) {
+      fixedPaths.push(part);
+      continue;
+    }
+
+    const field = currentFields
+      ? [...currentFields.values()].find((f) => f.fieldName === part)
+      : undefined;
+
+    currentFields = field?.embeddedMetadata?.fields;
+    fixedPaths.push(field?.propertyName || part);
+  }
+
+  return fixedPaths.join('.');
+}
@@ -1,5 +1,10 @@
 export * from './cast';
 export * from './definitionStorage';
+export * from './diff';
+export * from './fieldPath';
+export * from './isEqual';
 export * from './isPlainObject';
+export * from './json';
 export * from './reflection';
 export * from './testUtils';
+export * from './validate';
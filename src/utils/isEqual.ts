@@ -0,0 +1,45 @@
+/**
+ * Deeply compares two database values (including BSON values like
+ * `ObjectId` and `Binary` which implement `equals`).
+ */
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null
+  ) {
+    // NaN
+    return a !== a && b !== b;
+  }
+
+  if (a.constructor !== b.constructor) {
+    return false;
+  }
+
+  if (a instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+
+  if (typeof a.equals === 'function') {
+    return a.equals(b);
+  }
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) {
+    return false;
+  }
+
+  return keys.every(
+    (key) =>
+      Object.prototype.hasOwnProperty.call(b, key) && isEqual(a[key], b[key])
+  );
+}
@@ -0,0 +1,28 @@
+import { ObjectId } from 'mongodb';
+import { isPlainObject } from './isPlainObject';
+
+/**
+ * Converts raw values to JSON values, i.e. dates to ISO strings and object ids
+ * to hex strings (including the values of arrays & plain objects).
+ */
+export function toJSONValue(value: any): any {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  if (value instanceof ObjectId) {
+    return value.toHexString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJSONValue);
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, toJSONValue(v)])
+    );
+  }
+
+  return value;
+}
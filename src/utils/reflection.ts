@@ -1,7 +1,7 @@
 import 'reflect-metadata';
 import { Constructor } from '../typings';
 import { ObjectIdType, Type } from '../types';
-import { FieldDefinition } from '../metadata';
+import { FieldDefinition, FieldMetadata } from '../metadata';
 
 export function fieldToType(
   target: Record<any, any>,
@@ -32,3 +32,14 @@ export function fieldToType(
       };
   }
 }
+
+/**
+ * Gets the `design:type` of the decorated property.
+ */
+export function getDesignType(field: FieldMetadata): any {
+  return Reflect.getMetadata(
+    'design:type',
+    field.DocumentClass.prototype,
+    field.propertyName
+  );
+}
@@ -0,0 +1,228 @@
+import { UpdateFilter } from 'mongodb';
+import { AbstractDocumentMetadata, FieldMetadata } from '../metadata';
+import { isPlainObject } from './isPlainObject';
+import { resolveFieldPath } from './fieldPath';
+
+export interface ValidationFailure {
+  /**
+   * The property path, i.e. `reviews.0.rating`.
+   */
+  path: string;
+  constraint: string;
+  message: string;
+  value?: any;
+}
+
+/**
+ * Checks the field constraints of the model, including embedded documents.
+ */
+export function validate<Model>(
+  metadata: AbstractDocumentMetadata<Model, any>,
+  model: Model,
+  prefix = ''
+): ValidationFailure[] {
+  const failures: ValidationFailure[] = [];
+  const meta = getMetadataForModel(metadata, model);
+
+  meta.fields.forEach((field) => {
+    failures.push(
+      ...validateField(
+        field,
+        model?.[field.propertyName],
+        `${prefix}${field.propertyName}`,
+        model
+      )
+    );
+  });
+
+  return failures;
+}
+
+/**
+ * Checks the field constraints of the `$set` & `$setOnInsert` values and of
+ * the items added by `$push` & `$addToSet` (upserts aren't checked for
+ * missing `required` fields).
+ */
+export function validateUpdate<Model>(
+  metadata: AbstractDocumentMetadata<Model, any>,
+  update: UpdateFilter<any>
+): ValidationFailure[] {
+  if (!isPlainObject(update)) {
+    return [];
+  }
+
+  const failures: ValidationFailure[] = [];
+  const forEachField = (
+    operator: string,
+    fn: (field: FieldMetadata, value: any, path: string) => void
+  ) => {
+    if (!isPlainObject(update[operator])) {
+      return;
+    }
+
+    Object.entries(update[operator]).forEach(([path, value]) => {
+      const { field } = resolveFieldPath(metadata.fields, path);
+
+      if (field) {
+        fn(field, value, path);
+      }
+    });
+  };
+
+  ['$set', '$setOnInsert'].forEach((operator) => {
+    forEachField(operator, (field, value, path) => {
+      // i.e. `reviews.0` or `reviews.$` sets a single item of the array
+      const isItem = /\.(\d+|\$(\[\w*])?)$/.test(path);
+
+      failures.push(
+        ...(isItem
+          ? validateItem(field, value, path)
+          : validateField(field, value, path, undefined))
+      );
+    });
+  });
+
+  ['$push', '$addToSet'].forEach((operator) => {
+    forEachField(operator, (field, value, path) => {
+      const items =
+        isPlainObject(value) && Array.isArray(value.$each)
+          ? value.$each
+          : [value];
+
+      items.forEach((item: any) => {
+        failures.push(...validateItem(field, item, path));
+      });
+    });
+  });
+
+  return failures;
+}
+
+function getMetadataForModel<Model>(
+  metadata: AbstractDocumentMetadata<Model, any>,
+  model: Model
+): AbstractDocumentMetadata<Model, any> {
+  const { discriminator } = metadata;
+
+  if (!discriminator || !model) {
+    return metadata;
+  }
+
+  return (
+    discriminator.mapping.get(model[discriminator.propertyName]) || metadata
+  );
+}
+
+function validateField(
+  field: FieldMetadata,
+  value: any,
+  path: string,
+  model: any
+): ValidationFailure[] {
+  const constraints = field.constraints || {};
+  const failures: ValidationFailure[] = [];
+  const fail = (constraint: string, message: string) => {
+    failures.push({ path, constraint, message: `"${path}" ${message}`, value });
+  };
+
+  if (typeof value === 'undefined') {
+    if (constraints.required) {
+      fail('required', 'is required');
+    }
+
+    return failures;
+  }
+
+  if (value === null) {
+    if (
+      constraints.nullable === false ||
+      (constraints.required && !constraints.nullable)
+    ) {
+      fail('nullable', 'cannot be null');
+    }
+
+    return failures;
+  }
+
+  const { minLength, maxLength } = constraints;
+
+  if (typeof value === 'string' || Array.isArray(value)) {
+    if (typeof minLength === 'number' && value.length < minLength) {
+      fail('minLength', `must have a length of at least ${minLength}`);
+    }
+    if (typeof maxLength === 'number' && value.length > maxLength) {
+      fail('maxLength', `must have a length of at most ${maxLength}`);
+    }
+  }
+
+  if (typeof constraints.validate === 'function') {
+    const result = constraints.validate(value, model);
+
+    if (typeof result === 'string') {
+      failures.push({ path, constraint: 'validate', message: result, value });
+    } else if (result !== true) {
+      fail('validate', 'is invalid');
+    }
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      failures.push(...validateItem(field, item, `${path}.${i}`));
+    });
+  } else {
+    failures.push(...validateItem(field, value, path));
+  }
+
+  return failures;
+}
+
+/**
+ * Checks a value (or an item of an array field) against the constraints that
+ * apply to single values.
+ */
+function validateItem(
+  field: FieldMetadata,
+  value: any,
+  path: string
+): ValidationFailure[] {
+  const constraints = field.constraints || {};
+  const failures: ValidationFailure[] = [];
+  const fail = (constraint: string, message: string) => {
+    failures.push({ path, constraint, message: `"${path}" ${message}`, value });
+  };
+
+  if (value === null || typeof value === 'undefined') {
+    return failures;
+  }
+
+  if (field.embeddedMetadata) {
+    if (typeof value === 'object') {
+      failures.push(...validate(field.embeddedMetadata, value, `${path}.`));
+    }
+
+    return failures;
+  }
+
+  const { min, max, pattern } = constraints;
+
+  if (typeof min === 'number' && Number(value) < min) {
+    fail('min', `must be greater than or equal to ${min}`);
+  }
+  if (typeof max === 'number' && Number(value) > max) {
+    fail('max', `must be less than or equal to ${max}`);
+  }
+  if (pattern && !(typeof value === 'string' && pattern.test(value))) {
+    fail('pattern', `must match ${pattern}`);
+  }
+  if (constraints.enum) {
+    const values = Array.isArray(constraints.enum)
+      ? constraints.enum
+      : Object.values(constraints.enum);
+
+    if (!values.includes(value)) {
+      fail('enum', `must be one of ${values.join(', ')}`);
+    }
+  }
+
+  return failures;
+}
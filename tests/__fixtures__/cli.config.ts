@@ -0,0 +1,22 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import * as path from 'path';
+import { Document, DocumentManagerOptions, Field, Id, Index } from '../../src';
+
+@Document({ collection: 'cli_tasks' })
+export class Task {
+  @Id()
+  _id: ObjectId;
+
+  @Index()
+  @Field({ required: true })
+  title: string;
+}
+
+const options: DocumentManagerOptions = {
+  uri: process.env.MONGODB_URI,
+  documents: [Task],
+  migrations: path.resolve(__dirname, 'migrations')
+};
+
+export default options;
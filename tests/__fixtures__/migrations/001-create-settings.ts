@@ -0,0 +1,20 @@
+import { ClientSession } from 'mongodb';
+import { DocumentManager, Migration } from '../../../src';
+
+export default class CreateSettings implements Migration {
+  name = '001-create-settings';
+
+  async up(manager: DocumentManager, session: ClientSession): Promise<void> {
+    await manager.client
+      .db()
+      .collection('migration_settings')
+      .insertOne({ _id: 'theme', value: 'light' } as any, { session });
+  }
+
+  async down(manager: DocumentManager, session: ClientSession): Promise<void> {
+    await manager.client
+      .db()
+      .collection('migration_settings')
+      .deleteOne({ _id: 'theme' } as any, { session });
+  }
+}
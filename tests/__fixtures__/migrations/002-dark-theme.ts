@@ -0,0 +1,16 @@
+import { ClientSession } from 'mongodb';
+import { DocumentManager } from '../../../src';
+
+// named after the file
+export default {
+  async up(manager: DocumentManager, session: ClientSession): Promise<void> {
+    await manager.client
+      .db()
+      .collection('migration_settings')
+      .updateOne(
+        { _id: 'theme' } as any,
+        { $set: { value: 'dark' } },
+        { session }
+      );
+  }
+};
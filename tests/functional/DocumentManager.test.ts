@@ -368,6 +368,32 @@ describe('DocumentManager', () => {
 
       expect(user).toBeInstanceOf(User);
     });
+
+    it('uses the current session', async () => {
+      const repository = manager.getRepository(User);
+      const insertOne = jest.spyOn(manager.collection(User), 'insertOne');
+      const findOne = jest.spyOn(manager.collection(User), 'findOne');
+
+      expect(manager.currentSession()).toBeUndefined();
+
+      await manager.withTransaction(async (session: ClientSession) => {
+        expect(manager.currentSession()).toBe(session);
+
+        const user = await repository.create(createUsers().john);
+        expect(insertOne.mock.calls[0][1]).toEqual({ session });
+
+        await repository.findById(user._id, { useCurrentSession: false });
+        expect(findOne.mock.calls[0][1]).toEqual({});
+
+        // nested transactions join the current transaction
+        await manager.withTransaction(async (nested: ClientSession) => {
+          expect(nested).toBe(session);
+        });
+      });
+
+      expect(manager.currentSession()).toBeUndefined();
+      jest.restoreAllMocks();
+    });
   });
 
   describe('field renaming', () => {
@@ -0,0 +1,122 @@
+import 'reflect-metadata';
+import { User, createUserDocs } from '../../__fixtures__/User';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { UUIDType, removeDocuments } from '../../../src';
+
+describe('Repository -> aggregate', () => {
+  let manager: DocumentManager;
+  let docs: { john?: any; mary?: any } = {};
+  let aggregate: jest.SpyInstance;
+  const uuid = '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35';
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+
+    docs = createUserDocs();
+    docs.john.uid = new UUIDType().convertToDatabaseValue(uuid);
+    await manager.collection(User).insertMany(Object.values(docs));
+
+    aggregate = jest.spyOn(manager.collection(User), 'aggregate');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('hydrates models while the shape is unchanged', async () => {
+    const repository = manager.getRepository(User);
+
+    const found = await repository
+      .aggregate<User>([
+        { $match: { uuid } },
+        { $sort: { 'reviews.uuid': 1 } },
+        { $limit: 1 }
+      ])
+      .toArray();
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toBeInstanceOf(User);
+    expect(found[0].uuid).toBe(uuid);
+
+    expect(aggregate.mock.calls[0][0]).toEqual([
+      { $match: { uid: new UUIDType().convertToDatabaseValue(uuid) } },
+      { $sort: { 'reviews.uid': 1 } },
+      { $limit: 1 }
+    ]);
+  });
+
+  test('returns raw documents when the shape changes', async () => {
+    const repository = manager.getRepository(User);
+
+    const grouped = await repository
+      .aggregate([
+        { $match: { isActive: true } },
+        { $group: { _id: '$address.state', uuids: { $push: '$uuid' } } },
+        { $sort: { _id: 1 } }
+      ])
+      .toArray();
+
+    expect(grouped).toEqual([
+      { _id: 'CA', uuids: [new UUIDType().convertToDatabaseValue(uuid)] }
+    ]);
+    expect(aggregate.mock.calls[0][0][1]).toEqual({
+      $group: { _id: '$address.state', uuids: { $push: '$uid' } }
+    });
+  });
+
+  test('renames $project fields', async () => {
+    const repository = manager.getRepository(User);
+
+    const projected = await repository
+      .aggregate([
+        { $sort: { name: 1 } },
+        {
+          $project: {
+            _id: 0,
+            uuid: 1,
+            rating: { $max: '$reviews.rating' },
+            label: { $literal: '$uuid' }
+          }
+        }
+      ])
+      .toArray();
+
+    expect(aggregate.mock.calls[0][0][1]).toEqual({
+      $project: {
+        _id: 0,
+        uid: 1,
+        rating: { $max: '$reviews.rating' },
+        label: { $literal: '$uuid' }
+      }
+    });
+    expect(projected).toEqual([
+      {
+        uid: new UUIDType().convertToDatabaseValue(uuid),
+        rating: 10,
+        label: '$uuid'
+      },
+      { rating: null, label: '$uuid' }
+    ]);
+  });
+
+  test('disableCasting -> leaves the pipeline as is', async () => {
+    const repository = manager.getRepository(User);
+    const pipeline = [{ $match: { uuid } }];
+
+    expect(
+      await repository.aggregate(pipeline, { disableCasting: true }).toArray()
+    ).toEqual([]);
+    expect(aggregate.mock.calls[0][0]).toEqual(pipeline);
+  });
+});
@@ -0,0 +1,217 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { User, createUserDocs } from '../../__fixtures__/User';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { EventSubscriber } from '../../../src/events';
+import { Document, Field, Id, Version } from '../../../src/decorators';
+import { OptimisticLockError } from '../../../src/errors';
+import { UUIDType, removeDocuments } from '../../../src';
+
+@Document({ collection: 'bulk_write_tasks' })
+class Task {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @Version()
+  version: number;
+}
+
+describe('Repository -> bulkWrite', () => {
+  let manager: DocumentManager;
+  let docs: { john?: any; mary?: any } = {};
+  let bulkWrite: jest.SpyInstance;
+  const events: string[] = [];
+  const uuid = '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35';
+
+  const subscriber: EventSubscriber<User> = {
+    beforeInsert: (e) => {
+      events.push(`beforeInsert:${e.model.name}`);
+    },
+    afterInsert: (e) => {
+      events.push(`afterInsert:${e.model.name}`);
+    },
+    beforeUpdate: () => {
+      events.push('beforeUpdate');
+    },
+    afterUpdate: () => {
+      events.push('afterUpdate');
+    },
+    beforeReplace: (e) => {
+      e.model.isActive = true;
+      events.push(`beforeReplace:${e.model.name}`);
+    },
+    afterReplace: (e) => {
+      events.push(`afterReplace:${e.model.name}`);
+    },
+    beforeDeleteMany: () => {
+      events.push('beforeDeleteMany');
+    },
+    afterDeleteMany: () => {
+      events.push('afterDeleteMany');
+    }
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User, Task],
+      subscribers: [subscriber]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+    events.length = 0;
+
+    docs = createUserDocs();
+    await manager.collection(User).insertMany(Object.values(docs));
+
+    bulkWrite = jest.spyOn(manager.collection(User), 'bulkWrite');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('casts operations & dispatches events', async () => {
+    const repository = manager.getRepository(User);
+    const jane = repository.init({ name: 'Jane', uuid });
+    const mary = await repository.findById(docs.mary._id);
+    mary.name = 'Maria';
+
+    const result = await repository.bulkWrite([
+      { insertOne: { model: jane } },
+      {
+        updateOne: {
+          filter: { uuid },
+          update: { $set: { 'address.city': 'Seattle' } }
+        }
+      },
+      { replaceOne: { model: mary } },
+      { deleteMany: { filter: { name: 'John' } } }
+    ]);
+
+    expect(result.insertedCount).toBe(1);
+    expect(result.modifiedCount).toBe(2);
+    expect(result.deletedCount).toBe(1);
+
+    const uid = new UUIDType().convertToDatabaseValue(uuid);
+    const operations = bulkWrite.mock.calls[0][0];
+    expect(operations[0].insertOne.document.uid).toEqual(uid);
+    expect(operations[1].updateOne.filter).toEqual({ uid });
+    expect(operations[2].replaceOne.filter).toEqual({ _id: mary._id });
+
+    expect(events).toEqual([
+      'beforeInsert:Jane',
+      'beforeUpdate',
+      'beforeReplace:Maria',
+      'beforeDeleteMany',
+      'afterInsert:Jane',
+      'afterUpdate',
+      'afterReplace:Maria',
+      'afterDeleteMany'
+    ]);
+
+    const found = await repository.find({}, { sort: { name: 1 } }).toArray();
+    expect(found.map((u) => u.name)).toEqual(['Jane', 'Maria']);
+    expect(found[0].address.city).toBe('Seattle');
+    // "before" events can change the operations
+    expect(found[1].isActive).toBe(true);
+  });
+
+  test('disableCasting -> leaves filters & updates as is', async () => {
+    const repository = manager.getRepository(User);
+
+    await repository.bulkWrite(
+      [
+        {
+          updateMany: {
+            filter: { name: { $in: ['John', 'Mary'] } },
+            update: { $set: { uid: uuid } }
+          }
+        }
+      ],
+      { disableCasting: true }
+    );
+
+    expect(bulkWrite.mock.calls[0][0][0].updateMany.update).toEqual({
+      $set: { uid: uuid }
+    });
+    expect(bulkWrite.mock.calls[0][1]).toEqual({});
+  });
+
+  test('replaceOne -> throws on version mismatch', async () => {
+    const repository = manager.getRepository(Task);
+    const task = await repository.create({ name: 'one' });
+    const stale = await repository.findByIdOrFail(task._id);
+
+    task.name = 'two';
+    await repository.bulkWrite([{ replaceOne: { model: task } }]);
+    expect(task.version).toBe(2);
+
+    stale.name = 'three';
+    await expect(
+      repository.bulkWrite([{ replaceOne: { model: stale } }])
+    ).rejects.toThrow(OptimisticLockError);
+    expect(stale.version).toBe(1);
+    expect((await repository.findByIdOrFail(task._id)).name).toBe('two');
+  });
+
+  test('replaceOne -> checks the version of each replacement', async () => {
+    const repository = manager.getRepository(Task);
+    const [one, two] = await repository.create([
+      { name: 'one' },
+      { name: 'two' }
+    ]);
+    const stale = await repository.findByIdOrFail(one._id);
+
+    one.name = 'updated';
+    await repository.bulkWrite([{ replaceOne: { model: one } }]);
+
+    stale.name = 'stale';
+    await expect(
+      repository.bulkWrite([
+        {
+          updateMany: {
+            filter: { _id: two._id },
+            update: { $set: { name: 'many' } }
+          }
+        },
+        { replaceOne: { model: stale } }
+      ])
+    ).rejects.toThrow(OptimisticLockError);
+
+    expect(stale.version).toBe(1);
+    expect((await repository.findByIdOrFail(one._id)).name).toBe('updated');
+    expect((await repository.findByIdOrFail(two._id)).name).toBe('many');
+  });
+
+  test('replaceOne -> increments the versions of matched replacements', async () => {
+    const repository = manager.getRepository(Task);
+    const [one, two] = await repository.create([
+      { name: 'one' },
+      { name: 'two' }
+    ]);
+    one.name = 'first';
+    two.name = 'second';
+
+    const result = await repository.bulkWrite([
+      { replaceOne: { model: one } },
+      { insertOne: { model: repository.init({ name: 'three' }) } },
+      { replaceOne: { model: two } }
+    ]);
+
+    expect(result.matchedCount).toBe(2);
+    expect(result.insertedCount).toBe(1);
+    expect(Object.keys(result.insertedIds)).toEqual(['1']);
+    expect([one.version, two.version]).toEqual([2, 2]);
+    expect((await repository.findByIdOrFail(two._id)).name).toBe('second');
+  });
+});
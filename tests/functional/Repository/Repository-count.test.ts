@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { Address, User, createUserDocs } from '../../__fixtures__/User';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { DeletedAt, Document, Field, Id } from '../../../src/decorators';
+import { UUIDType, removeDocuments } from '../../../src';
+
+@Document({ collection: 'count_soft_deletable' })
+class SoftDeletable {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @DeletedAt()
+  deletedAt?: Date;
+}
+
+describe('Repository -> counts & distinct', () => {
+  let manager: DocumentManager;
+  let docs: { john?: any; mary?: any } = {};
+  const uuid = '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35';
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User, SoftDeletable]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+
+    docs = createUserDocs();
+    docs.john.uid = new UUIDType().convertToDatabaseValue(uuid);
+    await manager.collection(User).insertMany(Object.values(docs));
+  });
+
+  test('countDocuments() -> casts the filter', async () => {
+    const repository = manager.getRepository(User);
+
+    expect(await repository.countDocuments()).toBe(2);
+    expect(await repository.countDocuments({ uuid })).toBe(1);
+    expect(
+      await repository.countDocuments({ uuid }, { disableCasting: true })
+    ).toBe(0);
+  });
+
+  test('exists()', async () => {
+    const repository = manager.getRepository(User);
+
+    expect(await repository.exists({ uuid })).toBe(true);
+    expect(await repository.exists({ name: 'Jane' })).toBe(false);
+  });
+
+  test('estimatedDocumentCount() -> counts scoped documents', async () => {
+    expect(await manager.getRepository(User).estimatedDocumentCount()).toBe(2);
+
+    const repository = manager.getRepository(SoftDeletable);
+    await repository.create([{ name: 'John' }, { name: 'Mary' }]);
+    await repository.deleteOne({ name: 'John' });
+
+    expect(await repository.estimatedDocumentCount()).toBe(1);
+    expect(await repository.estimatedDocumentCount({ withDeleted: true })).toBe(
+      2
+    );
+  });
+
+  test('distinct() -> translates the path & converts the values', async () => {
+    const repository = manager.getRepository(User);
+
+    expect(await repository.distinct('uuid')).toEqual([uuid]);
+    expect(await repository.distinct('address.city', { name: 'John' })).toEqual(
+      ['San Diego']
+    );
+    expect(
+      (await repository.distinct('reviews.rating')).sort((a, b) => a - b)
+    ).toEqual([5, 10]);
+
+    const addresses = await repository.distinct('address');
+    expect(addresses).toHaveLength(2);
+    expect(addresses[0]).toBeInstanceOf(Address);
+  });
+});
@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { Document, Field, Id } from '../../../src/decorators';
+import { ValidationError } from '../../../src/errors';
+import { removeDocuments } from '../../../src';
+
+@Document({ collection: 'paginated' })
+class Ranked {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @Field({ name: 'r' })
+  rank: number;
+}
+
+describe('Repository -> paginate', () => {
+  let manager: DocumentManager;
+  let names: string[];
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Ranked]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+
+    // ties are sorted by `_id` in the direction of the last sort key
+    const ranks = [1, 2, 2, 2, 3, 3, 4];
+    const models = await manager
+      .getRepository(Ranked)
+      .create(ranks.map((rank, i) => ({ name: `${i}`, rank })));
+
+    names = models
+      .sort(
+        (a, b) =>
+          b.rank - a.rank ||
+          b._id.toHexString().localeCompare(a._id.toHexString())
+      )
+      .map((model) => model.name);
+  });
+
+  test('paginates forward & backward', async () => {
+    const repository = manager.getRepository(Ranked);
+    const sort = { rank: -1 as const };
+
+    const page1 = await repository.paginate({}, { sort, first: 3 });
+    expect(page1.items.map((m) => m.name)).toEqual(names.slice(0, 3));
+    expect(page1.items[0]).toBeInstanceOf(Ranked);
+    expect(page1.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: false
+    });
+
+    const page2 = await repository.paginate(
+      {},
+      { sort, first: 3, after: page1.pageInfo.endCursor }
+    );
+    expect(page2.items.map((m) => m.name)).toEqual(names.slice(3, 6));
+    expect(page2.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: true
+    });
+
+    const page3 = await repository.paginate(
+      {},
+      { sort, first: 3, after: page2.pageInfo.endCursor }
+    );
+    expect(page3.items.map((m) => m.name)).toEqual(names.slice(6));
+    expect(page3.pageInfo.hasNextPage).toBe(false);
+
+    const previous = await repository.paginate(
+      {},
+      { sort, last: 3, before: page2.pageInfo.startCursor }
+    );
+    expect(previous.items.map((m) => m.name)).toEqual(names.slice(0, 3));
+    expect(previous.pageInfo).toMatchObject({
+      hasNextPage: true,
+      hasPreviousPage: false,
+      startCursor: page1.pageInfo.startCursor,
+      endCursor: page1.pageInfo.endCursor
+    });
+  });
+
+  test('paginates over null & missing values', async () => {
+    const repository = manager.getRepository(Ranked);
+    const unranked = (
+      await repository.create([{ name: 'a' }, { name: 'b', rank: null }])
+    )
+      .sort((a, b) => a._id.toHexString().localeCompare(b._id.toHexString()))
+      .map((model) => model.name);
+
+    const paginateAll = async (sort: Record<string, 1 | -1>) => {
+      const items: string[] = [];
+      let after: string | undefined;
+
+      do {
+        const page = await repository.paginate({}, { sort, first: 2, after });
+        items.push(...page.items.map((m) => m.name));
+        after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : undefined;
+      } while (after);
+
+      return items;
+    };
+
+    // null & missing values sort before any other value
+    expect(await paginateAll({ rank: -1 })).toEqual([
+      ...names,
+      ...[...unranked].reverse()
+    ]);
+    expect(await paginateAll({ rank: 1 })).toEqual([
+      ...unranked,
+      ...[...names].reverse()
+    ]);
+  });
+
+  test('casts the filter', async () => {
+    const repository = manager.getRepository(Ranked);
+
+    const page = await repository.paginate(
+      { rank: { $gte: 3 } },
+      { sort: { rank: 1 }, first: 10 }
+    );
+
+    expect(page.items.map((m) => m.rank)).toEqual([3, 3, 4]);
+    expect(page.pageInfo.hasNextPage).toBe(false);
+  });
+
+  test('empty pages', async () => {
+    const page = await manager
+      .getRepository(Ranked)
+      .paginate({ name: 'missing' }, { first: 10 });
+
+    expect(page).toEqual({
+      items: [],
+      pageInfo: {
+        hasNextPage: false,
+        hasPreviousPage: false,
+        startCursor: null,
+        endCursor: null
+      }
+    });
+  });
+
+  test('rejects invalid cursors', async () => {
+    await expect(
+      manager.getRepository(Ranked).paginate({}, { first: 1, after: 'nope' })
+    ).rejects.toThrow(ValidationError);
+  });
+
+  test('rejects "first" & "last" together', async () => {
+    await expect(
+      manager.getRepository(Ranked).paginate({}, { first: 1, last: 1 })
+    ).rejects.toThrow('paginate() accepts either a "first" or "last" count');
+  });
+});
@@ -0,0 +1,168 @@
+import 'reflect-metadata';
+import { User, createUserDocs } from '../../__fixtures__/User';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { getSnapshot } from '../../../src/hydration';
+import { diff } from '../../../src/utils';
+import { removeDocuments } from '../../../src';
+
+describe('Repository -> save', () => {
+  let manager: DocumentManager;
+  let docs: { john?: any; mary?: any } = {};
+  let updateOne: jest.SpyInstance;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+
+    docs = createUserDocs();
+    await manager.collection(User).insertMany(Object.values(docs));
+
+    updateOne = jest.spyOn(manager.collection(User), 'updateOne');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('diff() -> computes dotted updates', () => {
+    expect(
+      diff(
+        {
+          _id: 1,
+          name: 'John',
+          age: 30,
+          address: { city: 'LA', state: 'CA' },
+          reviews: [{ rating: 1 }, { rating: 2 }],
+          tags: ['a']
+        },
+        {
+          _id: 2,
+          name: 'John',
+          address: { city: 'SF', state: 'CA' },
+          reviews: [{ rating: 1 }, { rating: 5 }],
+          tags: ['a', 'b'],
+          isActive: true
+        },
+        ['_id']
+      )
+    ).toEqual({
+      $set: {
+        'address.city': 'SF',
+        'reviews.1.rating': 5,
+        tags: ['a', 'b'],
+        isActive: true
+      },
+      $unset: { age: '' }
+    });
+  });
+
+  test('records snapshots for models loaded with `snapshot`', async () => {
+    const repository = manager.getRepository(User);
+    const john = await repository.findById(docs.john._id, { snapshot: true });
+
+    expect(getSnapshot(john)).toEqual(repository.toDB(john));
+    expect(
+      getSnapshot(await repository.findById(docs.john._id))
+    ).toBeUndefined();
+    expect(getSnapshot(manager.fromDB(User, docs.john))).toBeUndefined();
+  });
+
+  test('inserts new models', async () => {
+    const repository = manager.getRepository(User);
+    const user = repository.init({ name: 'Jane' });
+
+    await repository.save(user);
+
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(await repository.findById(user._id)).toEqual(user);
+
+    // saved models are tracked
+    user.name = 'Janet';
+    await repository.save(user);
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(updateOne.mock.calls[0][1]).toEqual({ $set: { name: 'Janet' } });
+  });
+
+  test('updates changed fields', async () => {
+    const repository = manager.getRepository(User);
+    const john = await repository.findById(docs.john._id, { snapshot: true });
+
+    await repository.save(john);
+    expect(updateOne).not.toHaveBeenCalled();
+
+    john.address.city = 'Los Angeles';
+    john.reviews[1].rating = 7;
+    john.reviews[0].uuid = 'cfe2d4b4-2a39-4c2e-8b2b-8d2d0b6f1f2e';
+    john.isActive = undefined;
+
+    await repository.save(john);
+
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    expect(updateOne.mock.calls[0][0]).toEqual({ _id: john._id });
+
+    const update = updateOne.mock.calls[0][1];
+    expect(Object.keys(update.$set)).toEqual([
+      'address.city',
+      'reviews.0.uid',
+      'reviews.1.rating'
+    ]);
+    expect(update.$unset).toEqual({ isActive: '' });
+
+    const found = await repository.findById(john._id);
+    expect(found).toEqual(john);
+
+    await repository.save(john);
+    expect(updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  test('replaces arrays that changed in length', async () => {
+    const repository = manager.getRepository(User);
+    const john = await repository.findById(docs.john._id, { snapshot: true });
+
+    john.reviews.pop();
+    await repository.save(john);
+
+    expect(updateOne.mock.calls[0][1]).toEqual({
+      $set: { reviews: [repository.toDB(john).reviews[0]] }
+    });
+    expect((await repository.findById(john._id)).reviews).toHaveLength(1);
+  });
+
+  test('replaces models loaded without `snapshot`', async () => {
+    const repository = manager.getRepository(User);
+    const john = await repository.findById(docs.john._id);
+
+    john.name = 'Johnny';
+    await repository.save(john);
+
+    expect(await repository.countDocuments({})).toBe(2);
+    expect(await repository.findById(john._id)).toEqual(john);
+
+    // saved models are tracked
+    updateOne.mockClear();
+    john.isActive = false;
+    await repository.save(john);
+
+    expect(updateOne.mock.calls[0][1]).toEqual({ $set: { isActive: false } });
+  });
+
+  test('throws when replacing removed models', async () => {
+    const repository = manager.getRepository(User);
+    const john = await repository.findById(docs.john._id);
+    await manager.collection(User).deleteOne({ _id: john._id });
+
+    await expect(repository.save(john)).rejects.toThrow('"User" not found');
+    expect(await repository.countDocuments({})).toBe(1);
+  });
+});
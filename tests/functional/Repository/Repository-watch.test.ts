@@ -0,0 +1,79 @@
+import 'reflect-metadata';
+import { User } from '../../__fixtures__/User';
+import { DocumentManager } from '../../../src/DocumentManager';
+import { ModelChangeStream } from '../../../src/repository';
+import { UUIDType, removeDocuments } from '../../../src';
+
+describe('Repository -> watch', () => {
+  let manager: DocumentManager;
+  let stream: ModelChangeStream<User>;
+  const uuid = '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35';
+  const other = 'f0e3c1b2-7c9d-4a51-8f0e-2d3c4b5a6978';
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  afterEach(async () => {
+    await stream?.close();
+  });
+
+  test('hydrates documents & translates updated fields', async () => {
+    const repository = manager.getRepository(User);
+    stream = repository.watch();
+
+    // the change stream starts once it's iterated
+    const next = stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const user = await repository.create({
+      name: 'John',
+      uuid,
+      address: { city: 'San Diego' }
+    });
+    await repository.updateById(user._id, {
+      $set: { 'address.city': 'Seattle', uuid: other },
+      $unset: { name: '' }
+    });
+
+    const inserted = await next;
+    expect(inserted.operationType).toBe('insert');
+    expect(inserted.fullDocument).toBeInstanceOf(User);
+    expect(inserted.fullDocument).toMatchObject({ name: 'John', uuid });
+
+    const updated = await stream.next();
+    expect(updated.operationType).toBe('update');
+    expect(updated.updateDescription.updatedFields).toEqual({
+      'address.city': 'Seattle',
+      uuid: new UUIDType().convertToDatabaseValue(other)
+    });
+    expect(updated.updateDescription.removedFields).toEqual(['name']);
+  });
+
+  test('casts $match stages', async () => {
+    const repository = manager.getRepository(User);
+    stream = repository.watch([{ $match: { 'fullDocument.uuid': uuid } }], {
+      fullDocument: 'updateLookup'
+    });
+
+    const next = stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    await repository.create({ name: 'Mary' });
+    const john = await repository.create({ name: 'John', uuid });
+
+    const change = await next;
+    expect(change.fullDocument._id).toEqual(john._id);
+  });
+});
@@ -0,0 +1,153 @@
+import 'reflect-metadata';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentManager } from '../../src/DocumentManager';
+import { parseArgs, run } from '../../src/cli';
+import options, { Task } from '../__fixtures__/cli.config';
+
+describe('cli', () => {
+  let manager: DocumentManager;
+  const config = path.resolve(__dirname, '../__fixtures__/cli.config.ts');
+
+  const cli = async (...argv: string[]) => {
+    const logs: string[] = [];
+    const code = await run([...argv, '--config', config], {
+      log: (message) => logs.push(message),
+      error: (message) => logs.push(`error: ${message}`)
+    });
+
+    return { code, logs };
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create(options);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await manager
+      .collection(Task)
+      .drop()
+      .catch(() => undefined);
+  });
+
+  test('parseArgs()', () => {
+    expect(
+      parseArgs([
+        'migrate:create',
+        'add index',
+        '--ext=js',
+        '--dir',
+        'm',
+        '--check'
+      ])
+    ).toEqual({
+      command: 'migrate:create',
+      positionals: ['add index'],
+      flags: { ext: 'js', dir: 'm', check: true }
+    });
+  });
+
+  test('unknown commands', async () => {
+    const { code, logs } = await cli('indexes:drop');
+
+    expect(code).toBe(2);
+    expect(logs[0]).toBe('error: Unknown command "indexes:drop"');
+  });
+
+  test('collections:create', async () => {
+    expect(await cli('collections:create', '--check')).toEqual({
+      code: 1,
+      logs: [`${manager.db(Task).databaseName}.cli_tasks: missing`]
+    });
+    expect((await cli('collections:create')).code).toBe(0);
+    expect((await cli('collections:create', '--check')).code).toBe(0);
+  });
+
+  test('indexes:sync --check', async () => {
+    const { code, logs } = await cli('indexes:sync', '--check');
+
+    expect(code).toBe(1);
+    expect(logs).toEqual([
+      `${manager.db(Task).databaseName}.cli_tasks: create title_1`
+    ]);
+    expect(await manager.collection(Task).indexExists('title_1')).toBe(false);
+
+    expect((await cli('indexes:sync')).code).toBe(0);
+    expect(await cli('indexes:sync', '--check')).toEqual({
+      code: 0,
+      logs: [`${manager.db(Task).databaseName}.cli_tasks: up to date`]
+    });
+  });
+
+  test('validators:sync --check', async () => {
+    expect((await cli('validators:sync', '--check')).code).toBe(1);
+    expect((await cli('validators:sync')).logs).toEqual([
+      `${manager.db(Task).databaseName}.cli_tasks: applied`
+    ]);
+    expect((await cli('validators:sync', '--check')).code).toBe(0);
+  });
+
+  test('migrate:status & migrate:up', async () => {
+    await manager.client
+      .db()
+      .collection('type_mongodb_migrations')
+      .deleteMany({});
+    await manager.client.db().collection('migration_settings').deleteMany({});
+
+    expect(await cli('migrate:status', '--check')).toEqual({
+      code: 1,
+      logs: ['001-create-settings: pending', '002-dark-theme: pending']
+    });
+    expect(
+      (await cli('migrate:up', '--to', '001-create-settings')).logs
+    ).toEqual(['up: 001-create-settings']);
+    expect((await cli('migrate:up', '--check')).logs).toEqual([
+      'pending: 002-dark-theme'
+    ]);
+    expect((await cli('migrate:down')).logs).toEqual([
+      'down: 001-create-settings'
+    ]);
+  });
+
+  test('migrate:create', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-'));
+
+    const { code, logs } = await cli(
+      'migrate:create',
+      'Add title index',
+      '--dir',
+      dir
+    );
+
+    expect(code).toBe(0);
+    const [file] = await fs.readdir(dir);
+    expect(file).toMatch(/^\d{14}-add-title-index\.ts$/);
+    expect(logs).toEqual([`Created ${path.join(dir, file)}`]);
+  });
+
+  test('metadata:dump', async () => {
+    const { logs } = await cli('metadata:dump');
+
+    expect(JSON.parse(logs[0]).documents).toEqual([
+      {
+        name: 'Task',
+        database: manager.db(Task).databaseName,
+        collection: 'cli_tasks',
+        fields: [
+          { propertyName: '_id', fieldName: '_id', type: 'ObjectId' },
+          {
+            propertyName: 'title',
+            fieldName: 'title',
+            constraints: { required: true }
+          }
+        ],
+        indexes: [{ name: 'title_1', keys: { title: 1 }, options: {} }]
+      }
+    ]);
+  });
+});
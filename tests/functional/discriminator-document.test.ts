@@ -0,0 +1,160 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Discriminator, Document, Id, Field } from '../../src/decorators';
+import { Repository } from '../../src/repository';
+import { removeDocuments } from '../../src';
+
+@Document({ collection: 'pets' })
+@Discriminator({ property: 'type' })
+class Pet {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ name: 'kind' })
+  type: string;
+
+  @Field()
+  name: string;
+}
+
+@Discriminator({ value: 'dog' })
+class Dog extends Pet {
+  type: string = 'dog';
+
+  @Field()
+  leashLength: number;
+}
+
+@Discriminator({ value: 'cat' })
+class Cat extends Pet {
+  @Field()
+  livesLeft: number;
+}
+
+describe('@Discriminator() on @Document()', () => {
+  let manager: DocumentManager;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Pet, Dog]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  const insertPets = async () => {
+    await manager.collection<Pet, any>(Pet).insertMany([
+      { _id: new ObjectId(), kind: 'dog', name: 'Fido', leashLength: 6 },
+      { _id: new ObjectId(), kind: 'cat', name: 'Tom', livesLeft: 9 },
+      { _id: new ObjectId(), kind: 'dog', name: 'Rex', leashLength: 4 }
+    ]);
+  };
+
+  test('builds metadata for mapped documents', () => {
+    const pet = manager.getMetadataFor(Pet);
+    const dog = manager.getMetadataFor(Dog);
+    const cat = manager.getMetadataFor(Cat);
+
+    expect(pet.discriminator.mapping.get('dog')).toBe(dog);
+    expect(pet.discriminator.mapping.get('cat')).toBe(cat);
+    expect(dog.collection.collectionName).toBe('pets');
+    expect(cat.collection.collectionName).toBe('pets');
+    expect(dog.discriminatorRoot).toBe(pet);
+    expect(dog.discriminatorValue).toBe('dog');
+    expect(manager.getRepository(Dog)).toBeInstanceOf(Repository);
+    expect(manager.getRepository(Dog)).not.toBe(manager.getRepository(Pet));
+  });
+
+  test('mapped repositories only watch changes of their type', async () => {
+    const stream = manager.getRepository(Dog).watch();
+
+    try {
+      // the change stream starts once it's iterated
+      const next = stream.next();
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      await manager.getRepository(Cat).create({ name: 'Tom', livesLeft: 9 });
+      await manager.getRepository(Dog).create({ name: 'Fido' });
+
+      const change = await next;
+      expect(change.fullDocument).toBeInstanceOf(Dog);
+      expect(change.fullDocument.name).toBe('Fido');
+    } finally {
+      await stream.close();
+    }
+  });
+
+  test('root repository hydrates mapped documents', async () => {
+    await insertPets();
+
+    const pets = await manager
+      .getRepository(Pet)
+      .find()
+      .sort({ name: 1 })
+      .toArray();
+
+    expect(pets).toHaveLength(3);
+    expect(pets[0]).toBeInstanceOf(Dog);
+    expect(pets[0]).toMatchObject({ type: 'dog', name: 'Fido' });
+    expect(pets[1]).toBeInstanceOf(Dog);
+    expect(pets[1]).toMatchObject({ type: 'dog', name: 'Rex' });
+    expect(pets[2]).toBeInstanceOf(Cat);
+    expect(pets[2]).toMatchObject({ type: 'cat', name: 'Tom', livesLeft: 9 });
+  });
+
+  test('mapped repositories scope queries', async () => {
+    await insertPets();
+
+    const dogs = await manager.getRepository(Dog).find().toArray();
+    expect(dogs).toHaveLength(2);
+    dogs.forEach((dog) => expect(dog).toBeInstanceOf(Dog));
+
+    const cat = await manager.getRepository(Cat).findOne({ name: 'Fido' });
+    expect(cat).toBeNull();
+
+    const result = await manager
+      .getRepository(Cat)
+      .updateMany({}, { $set: { name: 'Garfield' } });
+    expect(result.modifiedCount).toBe(1);
+
+    const deleted = await manager.getRepository(Dog).deleteMany({});
+    expect(deleted.deletedCount).toBe(2);
+    expect(await manager.collection<Pet, any>(Pet).countDocuments()).toBe(1);
+  });
+
+  test('mapped repositories set the discriminator value on inserts', async () => {
+    const cat = await manager
+      .getRepository(Cat)
+      .create({ name: 'Tom', livesLeft: 9 });
+
+    expect(cat).toBeInstanceOf(Cat);
+    expect(cat.type).toBe('cat');
+
+    const doc = await manager
+      .collection<Pet, any>(Pet)
+      .findOne({ _id: cat._id });
+    expect(doc).toEqual({
+      _id: cat._id,
+      kind: 'cat',
+      name: 'Tom',
+      livesLeft: 9
+    });
+  });
+
+  test('root repository creates mapped documents', async () => {
+    const dog = await manager
+      .getRepository(Pet)
+      .create({ type: 'dog', name: 'Fido' } as Partial<Dog>);
+
+    expect(dog).toBeInstanceOf(Dog);
+    expect(await manager.getRepository(Dog).findById(dog._id)).toEqual(dog);
+  });
+});
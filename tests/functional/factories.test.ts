@@ -0,0 +1,217 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id, Reference } from '../../src/decorators';
+import { EventSubscriber, InsertEvent } from '../../src/events';
+import {
+  createMemoryClient,
+  defineFactory,
+  defineFixtures,
+  loadFixtures,
+  removeDocuments
+} from '../../src';
+
+class Address {
+  @Field()
+  city: string;
+}
+
+class Review {
+  @Field()
+  rating: number;
+}
+
+@Document({ collection: 'factory_users' })
+class User {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @Field()
+  email: string;
+
+  @Field()
+  role: string;
+
+  @Field(() => Address)
+  address: Address;
+
+  @Field(() => [Review])
+  reviews: Review[];
+}
+
+@Document({ collection: 'factory_posts' })
+class Post {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  title: string;
+
+  @Reference(() => User)
+  author: User;
+}
+
+const addressFactory = defineFactory(Address, (_seq, { pick }) => ({
+  city: pick(['NYC', 'LA'])
+}));
+
+const reviewFactory = defineFactory(Review, (seq) => ({ rating: seq }));
+
+const userFactory = defineFactory(
+  User,
+  (seq, { email }) => ({
+    name: `User ${seq}`,
+    email: email(),
+    role: 'member',
+    address: addressFactory,
+    reviews: reviewFactory.many(2)
+  }),
+  {
+    traits: {
+      admin: { role: 'admin' },
+      named: (seq) => ({ name: `Named ${seq}` })
+    }
+  }
+);
+
+const postFactory = defineFactory(Post, (seq) => ({
+  title: `Post ${seq}`,
+  author: userFactory
+}));
+
+class InsertSubscriber implements EventSubscriber<User> {
+  inserted: string[] = [];
+
+  getSubscribedDocuments() {
+    return [User];
+  }
+
+  afterInsert(e: InsertEvent<User>) {
+    this.inserted.push(e.model.name);
+  }
+}
+
+describe('factories & fixtures', () => {
+  let manager: DocumentManager;
+  const subscriber = new InsertSubscriber();
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      client: createMemoryClient(),
+      documents: [User, Post],
+      subscribers: [subscriber]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+    [userFactory, postFactory, addressFactory, reviewFactory].forEach(
+      (factory) => factory.resetSequence()
+    );
+    subscriber.inserted = [];
+  });
+
+  test('build()', async () => {
+    const user = userFactory.build(manager);
+
+    expect(user).toBeInstanceOf(User);
+    expect(user._id).toBeInstanceOf(ObjectId);
+    expect(user).toMatchObject({
+      name: 'User 1',
+      email: 'user1@example.com',
+      role: 'member',
+      address: { city: 'NYC' },
+      reviews: [{ rating: 1 }, { rating: 2 }]
+    });
+    expect(user.address).toBeInstanceOf(Address);
+    expect(user.reviews[0]).toBeInstanceOf(Review);
+
+    expect(userFactory.build(manager).name).toBe('User 2');
+    expect(await manager.getRepository(User).countDocuments()).toBe(0);
+  });
+
+  test('overrides & traits', () => {
+    const user = userFactory.build(
+      manager,
+      { email: 'john@example.com', reviews: [] },
+      ['admin', 'named']
+    );
+
+    expect(user).toMatchObject({
+      name: 'Named 1',
+      email: 'john@example.com',
+      role: 'admin',
+      reviews: []
+    });
+    expect(() => userFactory.build(manager, {}, ['unknown'])).toThrow(
+      'The "User" factory does not have a "unknown" trait'
+    );
+  });
+
+  test('deterministic helpers', () => {
+    const values: string[][] = [];
+    const factory = defineFactory(Review, (seq, { uuid, objectId }) => {
+      values.push([uuid(), uuid(), objectId().toHexString()]);
+
+      return { rating: seq };
+    });
+
+    factory.build(manager);
+    factory.build(manager);
+    factory.resetSequence();
+    factory.build(manager);
+
+    expect(values[0]).toEqual([
+      '00000000-0001-4000-8000-000000000001',
+      '00000000-0002-4000-8000-000000000001',
+      '000000000000000100000003'
+    ]);
+    expect(values[1]).not.toEqual(values[0]);
+    expect(values[2]).toEqual(values[0]);
+  });
+
+  test('create()', async () => {
+    const users = await userFactory.createMany(manager, 2, {}, ['admin']);
+    const post = await postFactory.create(manager);
+
+    expect(subscriber.inserted).toEqual(['User 1', 'User 2', 'User 3']);
+    expect(await manager.getRepository(User).countDocuments()).toBe(3);
+
+    const found = await manager
+      .getRepository(Post)
+      .findById(post._id, { populate: ['author'] });
+    expect(found.author).toEqual(post.author);
+    expect(await manager.getRepository(User).findById(users[0]._id)).toEqual(
+      users[0]
+    );
+  });
+
+  test('loadFixtures()', async () => {
+    const users = defineFixtures('users', userFactory, {
+      john: { name: 'John' },
+      mary: { name: 'Mary' }
+    });
+    const posts = defineFixtures('posts', Post, {
+      hello: (ref) => ({ title: 'Hello', author: ref('users.john') })
+    });
+
+    const fixtures = await loadFixtures(manager, [users, posts]);
+
+    expect(fixtures.get<User>('users.john').name).toBe('John');
+    expect(Object.keys(fixtures.all('users'))).toEqual(['john', 'mary']);
+    expect(fixtures.get<Post>('posts.hello').author).toBe(
+      fixtures.get('users.john')
+    );
+    expect(await manager.getRepository(Post).countDocuments()).toBe(1);
+    expect(() => fixtures.get('users.jack')).toThrow(
+      'The "users.jack" fixture is not loaded'
+    );
+  });
+});
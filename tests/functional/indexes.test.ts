@@ -0,0 +1,240 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id, Index, Unique } from '../../src/decorators';
+
+class Location {
+  @Index()
+  @Field({ name: 'c' })
+  city: string;
+
+  @Field()
+  state: string;
+}
+
+@Document({ collection: 'indexed_documents' })
+@Index({ name: 1, 'location.state': -1 }, { name: 'name_state' })
+class IndexedDocument {
+  @Id()
+  _id: ObjectId;
+
+  @Unique()
+  @Field({ name: 'mail' })
+  email: string;
+
+  @Field()
+  name: string;
+
+  @Field(() => Location)
+  location: Location;
+
+  @Field(() => [Location])
+  locations: Location[] = [];
+}
+
+@Document({ collection: 'text_indexed_documents' })
+@Index(
+  { category: 1, title: 'text', body: 'text' },
+  { name: 'search', weights: { title: 10 } }
+)
+class TextIndexedDocument {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  category: string;
+
+  @Field()
+  title: string;
+
+  @Field()
+  body: string;
+}
+
+describe('indexes', () => {
+  let manager: DocumentManager;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [IndexedDocument]
+    });
+  });
+
+  beforeEach(async () => {
+    await manager
+      .collection(IndexedDocument)
+      .drop()
+      .catch(() => undefined);
+  });
+
+  afterAll(async () => {
+    await manager
+      .collection(IndexedDocument)
+      .drop()
+      .catch(() => undefined);
+    await manager.close();
+  });
+
+  test('builds index metadata', () => {
+    const { indexes } = manager.getMetadataFor(IndexedDocument);
+
+    expect(indexes.map((index) => [index.name, index.keys])).toEqual([
+      ['mail_1', { mail: 1 }],
+      ['name_state', { name: 1, 'location.state': -1 }],
+      ['location.c_1', { 'location.c': 1 }],
+      ['locations.c_1', { 'locations.c': 1 }]
+    ]);
+    expect(indexes[0].options).toEqual({ unique: true });
+  });
+
+  test('syncIndexes() -> dry run', async () => {
+    const plans = await manager.syncIndexes({ dryRun: true });
+
+    expect(plans).toHaveLength(1);
+    expect(plans[0].collection).toBe('indexed_documents');
+    expect(plans[0].create.map((index) => index.name)).toEqual([
+      'mail_1',
+      'name_state',
+      'location.c_1',
+      'locations.c_1'
+    ]);
+    expect(plans[0].drop).toEqual([]);
+
+    const existing = await manager
+      .collection(IndexedDocument)
+      .listIndexes()
+      .toArray()
+      .catch(() => []);
+    expect(existing).toHaveLength(0);
+  });
+
+  test('syncIndexes() -> creates indexes', async () => {
+    await manager.syncIndexes();
+
+    const existing = await manager
+      .collection(IndexedDocument)
+      .indexInformation();
+    expect(Object.keys(existing).sort()).toEqual([
+      '_id_',
+      'location.c_1',
+      'locations.c_1',
+      'mail_1',
+      'name_state'
+    ]);
+
+    const [plan] = await manager.syncIndexes({ dryRun: true });
+    expect(plan.create).toEqual([]);
+    expect(plan.drop).toEqual([]);
+    expect(plan.unchanged.sort()).toEqual([
+      'location.c_1',
+      'locations.c_1',
+      'mail_1',
+      'name_state'
+    ]);
+  });
+
+  test('syncIndexes() -> re-creates changed indexes', async () => {
+    await manager
+      .collection(IndexedDocument)
+      .createIndex({ mail: 1 }, { name: 'mail_1' });
+
+    const [plan] = await manager.syncIndexes();
+
+    expect(plan.drop).toEqual(['mail_1']);
+    expect(plan.create.map((index) => index.name)).toContain('mail_1');
+
+    const existing = await manager
+      .collection(IndexedDocument)
+      .listIndexes()
+      .toArray();
+    expect(existing.find((index) => index.name === 'mail_1').unique).toBe(true);
+  });
+
+  test('syncIndexes() -> drops unknown indexes', async () => {
+    await manager.collection(IndexedDocument).createIndex({ unknown: 1 });
+
+    let [plan] = await manager.syncIndexes();
+    expect(plan.drop).toEqual([]);
+
+    [plan] = await manager.syncIndexes({ dropUnknown: true });
+    expect(plan.drop).toEqual(['unknown_1']);
+
+    const existing = await manager
+      .collection(IndexedDocument)
+      .indexInformation();
+    expect(existing).not.toHaveProperty('unknown_1');
+  });
+});
+
+describe('text indexes', () => {
+  let manager: DocumentManager;
+
+  const collection = () => manager.collection(TextIndexedDocument);
+
+  const recreate = async (key: Record<string, any>, options: any) => {
+    await collection().dropIndex('search');
+    await collection().createIndex(key, { name: 'search', ...options });
+
+    const [plan] = await manager.syncIndexes({ dryRun: true });
+
+    return plan;
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [TextIndexedDocument]
+    });
+  });
+
+  beforeEach(async () => {
+    await collection()
+      .drop()
+      .catch(() => undefined);
+    await manager.syncIndexes();
+  });
+
+  afterAll(async () => {
+    await collection()
+      .drop()
+      .catch(() => undefined);
+    await manager.close();
+  });
+
+  test('syncIndexes() -> keeps unchanged text indexes', async () => {
+    const [plan] = await manager.syncIndexes({ dryRun: true });
+
+    expect(plan.unchanged).toEqual(['search']);
+    expect(plan.drop).toEqual([]);
+  });
+
+  test('syncIndexes() -> compares text fields & options', async () => {
+    const key = { category: 1, title: 'text', body: 'text' };
+
+    let plan = await recreate(
+      { category: 1, title: 'text' },
+      { weights: { title: 10 } }
+    );
+    expect(plan.drop).toEqual(['search']);
+
+    plan = await recreate(key, { weights: { title: 5 } });
+    expect(plan.drop).toEqual(['search']);
+
+    plan = await recreate(key, {
+      weights: { title: 10 },
+      default_language: 'spanish'
+    });
+    expect(plan.drop).toEqual(['search']);
+
+    plan = await recreate(key, {
+      weights: { title: 10 },
+      language_override: 'lang'
+    });
+    expect(plan.drop).toEqual(['search']);
+
+    // the weights are compared regardless of their order
+    plan = await recreate(key, { weights: { body: 1, title: 10 } });
+    expect(plan.unchanged).toEqual(['search']);
+  });
+});
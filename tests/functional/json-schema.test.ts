@@ -0,0 +1,143 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Discriminator, Document, Field, Id } from '../../src/decorators';
+import { UUIDType } from '../../src/types';
+
+@Discriminator({ property: 'kind' })
+abstract class Pet {
+  @Field()
+  abstract kind: string;
+
+  @Field({ required: true, minLength: 1 })
+  name: string;
+}
+
+@Discriminator({ value: 'dog' })
+class Dog extends Pet {
+  kind = 'dog';
+
+  @Field()
+  goodBoy: boolean;
+}
+
+@Discriminator({ value: 'cat' })
+class Cat extends Pet {
+  kind = 'cat';
+
+  @Field({ min: 1, max: 9 })
+  lives: number;
+}
+
+class Address {
+  @Field()
+  city: string;
+}
+
+@Document()
+class Owner {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ type: UUIDType, name: 'uid', required: true })
+  uuid: string;
+
+  @Field({ enum: ['active', 'inactive'], nullable: true })
+  status: string;
+
+  @Field()
+  birthday: Date;
+
+  @Field({ maxLength: 3 })
+  tags: string[];
+
+  @Field(() => Address, { nullable: true })
+  address: Address;
+
+  @Field(() => [Pet])
+  pets: (Dog | Cat)[];
+}
+
+describe('exportSchemas()', () => {
+  let manager: DocumentManager;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Owner]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  test('JSON Schema', () => {
+    const schema = manager.exportSchemas();
+
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(Object.keys(schema.$defs)).toEqual([
+      'Owner',
+      'Address',
+      'Pet',
+      'Dog',
+      'Cat'
+    ]);
+    expect(schema.$defs.Owner).toEqual({
+      type: 'object',
+      title: 'Owner',
+      required: ['uuid'],
+      properties: {
+        _id: {
+          type: 'string',
+          format: 'objectid',
+          pattern: '^[0-9a-fA-F]{24}$'
+        },
+        uuid: { type: 'string', format: 'uuid' },
+        status: {
+          type: ['string', 'null'],
+          enum: ['active', 'inactive', null]
+        },
+        birthday: { type: 'string', format: 'date-time' },
+        tags: { type: 'array', items: {}, maxItems: 3 },
+        address: {
+          anyOf: [{ $ref: '#/$defs/Address' }, { type: 'null' }]
+        },
+        pets: { type: 'array', items: { $ref: '#/$defs/Pet' } }
+      }
+    });
+  });
+
+  test('OpenAPI components', () => {
+    const { components } = manager.exportSchemas({ format: 'openapi' });
+    const { Pet, Dog, Cat } = components.schemas;
+
+    expect(Pet).toEqual({
+      oneOf: [
+        { $ref: '#/components/schemas/Dog' },
+        { $ref: '#/components/schemas/Cat' }
+      ],
+      discriminator: {
+        propertyName: 'kind',
+        mapping: {
+          dog: '#/components/schemas/Dog',
+          cat: '#/components/schemas/Cat'
+        }
+      }
+    });
+    expect(Dog).toMatchObject({
+      title: 'Dog',
+      required: ['name', 'kind'],
+      properties: {
+        kind: { type: 'string', const: 'dog' },
+        name: { type: 'string', minLength: 1 },
+        goodBoy: { type: 'boolean' }
+      }
+    });
+    expect(Cat.properties.lives).toEqual({
+      type: 'number',
+      minimum: 1,
+      maximum: 9
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id, Parent, Reference } from '../../src/decorators';
+import { UUIDType } from '../../src/types';
+import { toJSON } from '../../src';
+
+@Document({ collection: 'json_authors' })
+class Author {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+}
+
+class Chapter {
+  @Parent()
+  book: any;
+
+  @Field()
+  title: string;
+
+  @Field()
+  publishedAt: Date;
+}
+
+@Document({ collection: 'json_books' })
+class Book {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ type: UUIDType })
+  isbn: string;
+
+  @Field()
+  releasedAt: Date;
+
+  @Field()
+  meta: Record<string, any>;
+
+  @Reference(() => Author)
+  author: Author;
+
+  @Reference(() => [Author])
+  editors: Author[];
+
+  @Field(() => [Chapter])
+  chapters: Chapter[];
+
+  toJSON() {
+    return toJSON(this);
+  }
+}
+
+describe('JSON', () => {
+  let manager: DocumentManager;
+
+  const bookId = new ObjectId();
+  const authorId = new ObjectId();
+  const editorId = new ObjectId();
+  const isbn = '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35';
+
+  const json = {
+    _id: bookId.toHexString(),
+    isbn,
+    releasedAt: '2020-01-01T00:00:00.000Z',
+    meta: { reviewedAt: '2019-12-01T00:00:00.000Z', votes: 2 },
+    author: { _id: authorId.toHexString(), name: 'John' },
+    editors: [editorId.toHexString()],
+    chapters: [{ title: 'One', publishedAt: '2019-06-01T00:00:00.000Z' }]
+  };
+
+  const createBook = () =>
+    manager.init(Book, {
+      _id: bookId,
+      isbn,
+      releasedAt: new Date(json.releasedAt),
+      meta: { reviewedAt: new Date(json.meta.reviewedAt), votes: 2 },
+      author: manager.init(Author, { _id: authorId, name: 'John' }),
+      editors: [editorId as any],
+      chapters: [
+        { title: 'One', publishedAt: new Date(json.chapters[0].publishedAt) }
+      ]
+    });
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Book, Author]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  test('toJSON()', () => {
+    const book = createBook();
+
+    expect(manager.toJSON(Book, book)).toEqual(json);
+    expect(manager.getRepository(Book).toJSON(book)).toEqual(json);
+  });
+
+  test('fromJSON()', () => {
+    const book = manager
+      .getRepository(Book)
+      .fromJSON(JSON.parse(JSON.stringify(json)));
+
+    expect(book).toBeInstanceOf(Book);
+    expect(book._id).toEqual(bookId);
+    expect(book.isbn).toBe(isbn);
+    expect(book.releasedAt).toEqual(new Date(json.releasedAt));
+    expect(book.author).toBeInstanceOf(Author);
+    expect(book.author._id).toEqual(authorId);
+    expect(book.editors).toEqual([editorId]);
+    expect(book.chapters[0]).toBeInstanceOf(Chapter);
+    expect(book.chapters[0].book).toBe(book);
+    expect(book.chapters[0].publishedAt).toEqual(
+      new Date(json.chapters[0].publishedAt)
+    );
+    expect(manager.toJSON(Book, book)).toEqual(json);
+  });
+
+  test("the model's own toJSON()", () => {
+    expect(JSON.parse(JSON.stringify(createBook()))).toEqual(json);
+  });
+});
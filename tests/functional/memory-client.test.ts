@@ -0,0 +1,291 @@
+import 'reflect-metadata';
+import { MongoServerError, ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import {
+  CreatedAt,
+  Document,
+  Field,
+  Id,
+  Reference,
+  Version
+} from '../../src/decorators';
+import { createMemoryClient, removeDocuments } from '../../src';
+
+class Address {
+  @Field()
+  city: string;
+}
+
+@Document({ collection: 'memory_authors' })
+class Author {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ name: 'fullName' })
+  name: string;
+
+  @Field()
+  age: number;
+
+  @Field()
+  tags: string[];
+
+  @Field(() => Address)
+  address: Address;
+
+  @CreatedAt()
+  createdAt: Date;
+
+  @Version()
+  version: number;
+}
+
+@Document({ collection: 'memory_posts' })
+class Post {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  title: string;
+
+  @Reference(() => Author)
+  author: Author;
+}
+
+describe('createMemoryClient()', () => {
+  let manager: DocumentManager;
+
+  const authors = () => manager.getRepository(Author);
+
+  const createAuthors = () =>
+    authors().createMany([
+      { name: 'John', age: 30, tags: ['a', 'b'], address: { city: 'NYC' } },
+      { name: 'Mary', age: 25, tags: ['b'], address: { city: 'LA' } },
+      { name: 'Jack', age: 40, tags: [], address: { city: 'NYC' } }
+    ]);
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      client: createMemoryClient(),
+      documents: [Author, Post]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  test('inserts & finds documents', async () => {
+    const [john] = await createAuthors();
+
+    const found = await authors().findById(john._id);
+    expect(found).toBeInstanceOf(Author);
+    expect(found).toEqual(john);
+    expect(found.address).toBeInstanceOf(Address);
+
+    // stored documents are copies
+    found.address.city = 'Boston';
+    expect((await authors().findById(john._id)).address.city).toBe('NYC');
+
+    expect(
+      await manager.collection(Author).findOne({ _id: john._id })
+    ).toMatchObject({ fullName: 'John', version: 1 });
+  });
+
+  test('query operators', async () => {
+    await createAuthors();
+
+    const names = async (filter: any, options?: any) =>
+      (await authors().find(filter, options).toArray()).map((a) => a.name);
+
+    expect(await names({ name: 'John' })).toEqual(['John']);
+    expect(await names({ age: { $gte: 30 } })).toEqual(['John', 'Jack']);
+    expect(await names({ age: { $in: [25, 40] } })).toEqual(['Mary', 'Jack']);
+    expect(await names({ name: { $ne: 'John' } })).toEqual(['Mary', 'Jack']);
+    expect(await names({ name: /^j/i })).toEqual(['John', 'Jack']);
+    expect(await names({ tags: 'b' })).toEqual(['John', 'Mary']);
+    expect(await names({ tags: { $size: 0 } })).toEqual(['Jack']);
+    expect(await names({ 'address.city': 'LA' })).toEqual(['Mary']);
+    expect(
+      await names({ $or: [{ name: 'Mary' }, { age: { $gt: 35 } }] })
+    ).toEqual(['Mary', 'Jack']);
+    expect(await names({ age: { $not: { $lt: 30 } } })).toEqual([
+      'John',
+      'Jack'
+    ]);
+    expect(await names({ missing: { $exists: false } })).toHaveLength(3);
+  });
+
+  test('sort, skip, limit & projection', async () => {
+    await createAuthors();
+
+    const sorted = await authors()
+      .find({}, { sort: { age: -1 }, skip: 1, limit: 1 })
+      .toArray();
+    expect(sorted.map((a) => a.name)).toEqual(['John']);
+
+    const cursor = manager
+      .collection(Author)
+      .find({}, { projection: { fullName: 1 } })
+      .sort({ fullName: 1 });
+    expect(await cursor.toArray()).toEqual([
+      { _id: expect.any(ObjectId), fullName: 'Jack' },
+      { _id: expect.any(ObjectId), fullName: 'John' },
+      { _id: expect.any(ObjectId), fullName: 'Mary' }
+    ]);
+
+    const [ids] = await manager
+      .collection(Author)
+      .find({}, { projection: { _id: 1 } })
+      .toArray();
+    expect(ids).toEqual({ _id: expect.any(ObjectId) });
+
+    const page = await authors().paginate({}, { sort: { age: 1 }, first: 2 });
+    expect(page.items.map((a) => a.name)).toEqual(['Mary', 'John']);
+    expect(page.pageInfo.hasNextPage).toBe(true);
+  });
+
+  test('sorts arrays by their smallest or largest item', async () => {
+    const collection = manager.collection<Author, any>(Author);
+    await collection.insertMany([
+      { _id: new ObjectId(), fullName: 'a', age: [1, 10] },
+      { _id: new ObjectId(), fullName: 'b', age: 5 },
+      { _id: new ObjectId(), fullName: 'c', age: '5' },
+      { _id: new ObjectId(), fullName: 'd', age: [3, 4] }
+    ]);
+
+    const sorted = async (age: 1 | -1) =>
+      (await collection.find({}).sort({ age }).toArray()).map(
+        (doc) => doc.fullName
+      );
+
+    expect(await sorted(1)).toEqual(['a', 'd', 'b', 'c']);
+    expect(await sorted(-1)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  test('update operators', async () => {
+    const [john] = await createAuthors();
+
+    await authors().updateById(john._id, {
+      $set: { 'address.city': 'Boston' },
+      $inc: { age: 1 },
+      $push: { tags: 'c' },
+      $pull: { tags: 'a' }
+    });
+
+    const updated = await authors().findByIdOrFail(john._id);
+    expect(updated.address.city).toBe('Boston');
+    expect(updated.age).toBe(31);
+    expect(updated.tags).toEqual(['b', 'c']);
+    expect(updated.version).toBe(2);
+
+    const result = await authors().updateMany(
+      { tags: 'b' },
+      { $addToSet: { tags: 'b' }, $unset: { address: '' } }
+    );
+    expect(result).toMatchObject({ matchedCount: 2, modifiedCount: 2 });
+    expect(
+      await authors().countDocuments({ address: { $exists: false } })
+    ).toBe(2);
+
+    const latest = await authors().findByIdOrFail(john._id, {
+      snapshot: true
+    });
+    latest.name = 'Johnny';
+    await authors().save(latest);
+    expect((await authors().findByIdOrFail(john._id)).name).toBe('Johnny');
+  });
+
+  test('upserts', async () => {
+    const result = await authors().updateOne(
+      { name: 'Ann' },
+      { $set: { age: 20 } },
+      { upsert: true }
+    );
+    expect(result.upsertedId).toBeInstanceOf(ObjectId);
+
+    const ann = await authors().findOneOrFail({ name: 'Ann' });
+    expect(ann.age).toBe(20);
+    expect(ann.createdAt).toBeInstanceOf(Date);
+  });
+
+  test('findOneAnd*()', async () => {
+    const [john] = await createAuthors();
+
+    const updated = await authors().findOneAndUpdate(
+      { name: 'John' },
+      { $set: { age: 50 } },
+      { returnDocument: 'after' }
+    );
+    expect(updated.age).toBe(50);
+
+    const replaced = await authors().findByIdAndReplace(
+      john._id,
+      authors().init({ name: 'Replaced', age: 1, version: 2 }),
+      { returnDocument: 'after' }
+    );
+    expect(replaced.name).toBe('Replaced');
+    expect(replaced.createdAt).toEqual(john.createdAt);
+
+    const deleted = await authors().findOneAndDelete({ age: { $gt: 30 } });
+    expect(deleted.name).toBe('Jack');
+    expect(await authors().findOneAndDelete({ name: 'Jack' })).toBeNull();
+  });
+
+  test('deletes, counts & distinct values', async () => {
+    await createAuthors();
+
+    expect(await authors().estimatedDocumentCount()).toBe(3);
+    expect(await authors().distinct('address.city')).toEqual(['NYC', 'LA']);
+    expect(await authors().deleteOne({ name: 'John' })).toBe(true);
+    expect(await authors().deleteMany({})).toMatchObject({ deletedCount: 2 });
+    expect(await authors().countDocuments()).toBe(0);
+  });
+
+  test('references, bulk writes & aggregations', async () => {
+    const [john] = await createAuthors();
+    await manager.getRepository(Post).bulkWrite([
+      {
+        insertOne: { model: manager.init(Post, { title: 'One', author: john }) }
+      },
+      {
+        updateOne: {
+          filter: { title: 'Two' },
+          update: { $set: { author: john } },
+          upsert: true
+        }
+      }
+    ]);
+
+    const posts = await manager
+      .getRepository(Post)
+      .find({}, { populate: ['author'] })
+      .toArray();
+    expect(posts.map((post) => post.author.name)).toEqual(['John', 'John']);
+
+    const counts = await authors()
+      .aggregate([{ $match: { age: { $gte: 30 } } }, { $count: 'total' }])
+      .toArray();
+    expect(counts).toEqual([{ total: 2 }]);
+  });
+
+  test('transactions & duplicate keys', async () => {
+    const [john] = await createAuthors();
+
+    await manager.withTransaction(async () => {
+      await authors().updateById(john._id, { $set: { age: 99 } });
+    });
+    expect((await authors().findByIdOrFail(john._id)).age).toBe(99);
+
+    const err = await manager
+      .collection(Author)
+      .insertOne({ _id: john._id } as any)
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(MongoServerError);
+    expect(err.code).toBe(11000);
+  });
+});
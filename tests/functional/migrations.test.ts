@@ -0,0 +1,185 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import * as path from 'path';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id } from '../../src/decorators';
+import { MigrationError } from '../../src/errors';
+import { Migration, Migrator } from '../../src/migrations';
+
+@Document({ collection: 'migration_users' })
+class User {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ name: 'fullName' })
+  name: string;
+}
+
+const renameName: Migration = {
+  name: '001-rename-name',
+  async up(manager, session) {
+    await manager
+      .collection(User)
+      .updateMany({}, { $rename: { name: 'fullName' } }, { session });
+  },
+  async down(manager, session) {
+    await manager
+      .collection(User)
+      .updateMany({}, { $rename: { fullName: 'name' } }, { session });
+  }
+};
+
+const uppercaseNames: Migration = {
+  name: '002-uppercase-names',
+  async up(manager, session) {
+    await manager
+      .collection(User)
+      .updateMany({}, [{ $set: { fullName: { $toUpper: '$fullName' } } }], {
+        session
+      });
+  },
+  async down(manager, session) {
+    await manager
+      .collection(User)
+      .updateMany({}, [{ $set: { fullName: { $toLower: '$fullName' } } }], {
+        session
+      });
+  }
+};
+
+const irreversible: Migration = {
+  name: '003-irreversible',
+  async up() {
+    // no-op
+  }
+};
+
+describe('migrations', () => {
+  let manager: DocumentManager;
+
+  const states = () =>
+    manager.client.db().collection('type_mongodb_migrations');
+
+  const names = async () =>
+    (await manager.collection(User).find().toArray()).map(
+      (user: any) => user.fullName || user.name
+    );
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User],
+      migrations: [renameName, uppercaseNames, irreversible]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await states().deleteMany({});
+    await manager.collection(User).deleteMany({});
+    await manager
+      .collection(User)
+      .insertMany([{ name: 'john' }, { name: 'mary' }] as any[]);
+  });
+
+  test('migrate()', async () => {
+    expect(await manager.migrate({ dryRun: true })).toEqual([
+      { name: '001-rename-name', direction: 'up' },
+      { name: '002-uppercase-names', direction: 'up' },
+      { name: '003-irreversible', direction: 'up' }
+    ]);
+    expect(await states().countDocuments()).toBe(0);
+
+    expect(await manager.migrate({ to: '002-uppercase-names' })).toHaveLength(
+      2
+    );
+    expect(await names()).toEqual(['JOHN', 'MARY']);
+    expect(await manager.migrate()).toEqual([
+      { name: '003-irreversible', direction: 'up' }
+    ]);
+    expect(await manager.migrate()).toEqual([]);
+
+    const [state] = await states().find().toArray();
+    expect(state).toEqual({
+      _id: '001-rename-name',
+      appliedAt: expect.any(Date)
+    });
+  });
+
+  test('rollback()', async () => {
+    await manager.migrate({ to: '002-uppercase-names' });
+
+    expect(await manager.rollback()).toEqual([
+      { name: '002-uppercase-names', direction: 'down' }
+    ]);
+    expect(await names()).toEqual(['john', 'mary']);
+
+    await manager.migrate({ to: '002-uppercase-names' });
+    expect(await manager.rollback({ to: '001-rename-name' })).toHaveLength(1);
+    expect(await manager.rollback({ to: '001-rename-name' })).toHaveLength(0);
+
+    await manager.migrate();
+    await expect(manager.rollback()).rejects.toMatchObject({
+      metadata: { code: 'IRREVERSIBLE_MIGRATION' }
+    });
+  });
+
+  test('failed migrations are not applied', async () => {
+    const failing: Migration = {
+      name: '004-failing',
+      async up(manager, session) {
+        await uppercaseNames.up(manager, session);
+        throw new Error('Failed');
+      }
+    };
+
+    const migrator = new Migrator(manager, {
+      migrations: [renameName, failing]
+    });
+
+    await expect(migrator.migrate()).rejects.toThrow('Failed');
+    expect(await migrator.getApplied()).toEqual(new Set(['001-rename-name']));
+    expect(await names()).toEqual(['john', 'mary']);
+
+    // the lock was released
+    expect(await migrator.migrate({ to: '001-rename-name' })).toEqual([]);
+  });
+
+  test('prevents concurrent runs', async () => {
+    let resume: () => void;
+    const blocking: Migration = {
+      name: '001-blocking',
+      transaction: false,
+      up: () => new Promise<void>((resolve) => (resume = resolve))
+    };
+
+    const running = new Migrator(manager, { migrations: [blocking] }).migrate();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const err = await manager.migrate().catch((e) => e);
+    expect(err).toBeInstanceOf(MigrationError);
+    expect(err.metadata.code).toBe('LOCKED');
+
+    resume();
+    await running;
+    expect(await manager.migrate({ to: '001-rename-name' })).toHaveLength(1);
+  });
+
+  test('loads migrations from a directory', async () => {
+    const settings = manager.client.db().collection('migration_settings');
+    await settings.deleteMany({});
+
+    const migrator = new Migrator(manager, {
+      migrations: path.resolve(__dirname, '../__fixtures__/migrations')
+    });
+
+    expect(await migrator.migrate()).toEqual([
+      { name: '001-create-settings', direction: 'up' },
+      { name: '002-dark-theme', direction: 'up' }
+    ]);
+    expect(await settings.findOne()).toEqual({ _id: 'theme', value: 'dark' });
+  });
+});
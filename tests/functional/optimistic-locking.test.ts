@@ -0,0 +1,217 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { DeletedAt, Document, Field, Id, Version } from '../../src/decorators';
+import { OptimisticLockError } from '../../src/errors';
+import { removeDocuments } from '../../src';
+
+@Document({ collection: 'versioned_documents' })
+class Versioned {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @Version({ name: '__v' })
+  version: number;
+}
+
+@Document({ collection: 'versioned_soft_deletable' })
+class VersionedSoftDeletable {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @DeletedAt()
+  deletedAt?: Date;
+
+  @Version()
+  version: number;
+}
+
+describe('@Version()', () => {
+  let manager: DocumentManager;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Versioned, VersionedSoftDeletable]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  const getVersion = async (_id: ObjectId): Promise<number> => {
+    const doc = await manager
+      .collection<Versioned, any>(Versioned)
+      .findOne({ _id });
+
+    return doc.__v;
+  };
+
+  test('initializes the version', async () => {
+    const repository = manager.getRepository(Versioned);
+
+    expect(manager.getMetadataFor(Versioned).versionField.fieldName).toBe(
+      '__v'
+    );
+    expect(repository.init({ name: 'John' }).version).toBe(1);
+    expect(repository.init({ name: 'John', version: 5 }).version).toBe(5);
+
+    const model = await repository.create({ name: 'John' });
+    expect(await getVersion(model._id)).toBe(1);
+  });
+
+  test('replaceOne() -> checks & increments the version', async () => {
+    const repository = manager.getRepository(Versioned);
+    const model = await repository.create({ name: 'John' });
+    const stale = await repository.findById(model._id);
+
+    model.name = 'Johnny';
+    await repository.replaceById(model._id, model);
+
+    expect(model.version).toBe(2);
+    expect(await getVersion(model._id)).toBe(2);
+
+    stale.name = 'Jon';
+    await expect(repository.replaceById(stale._id, stale)).rejects.toThrow(
+      OptimisticLockError
+    );
+    expect(stale.version).toBe(1);
+    expect((await repository.findById(model._id)).name).toBe('Johnny');
+  });
+
+  test('findOneAndReplace() -> checks & increments the version', async () => {
+    const repository = manager.getRepository(Versioned);
+    const model = await repository.create({ name: 'John' });
+    const stale = await repository.findById(model._id);
+
+    const replaced = await repository.findByIdAndReplace(model._id, model, {
+      returnDocument: 'after'
+    });
+    expect(replaced.version).toBe(2);
+
+    await expect(
+      repository.findByIdAndReplace(stale._id, stale)
+    ).rejects.toThrow('"Versioned" was modified or removed since version 1');
+  });
+
+  test('updateOne() -> increments & checks the expected version', async () => {
+    const repository = manager.getRepository(Versioned);
+    const model = await repository.create({ name: 'John' });
+
+    await repository.updateById(model._id, { $set: { name: 'Johnny' } });
+    expect(await getVersion(model._id)).toBe(2);
+
+    await repository.updateById(
+      model._id,
+      { $set: { name: 'Jon' } },
+      { expectedVersion: 2 }
+    );
+    expect(await getVersion(model._id)).toBe(3);
+
+    await expect(
+      repository.updateById(
+        model._id,
+        { $set: { name: 'Jonathan' } },
+        { expectedVersion: 2 }
+      )
+    ).rejects.toThrow(OptimisticLockError);
+    expect((await repository.findById(model._id)).name).toBe('Jon');
+
+    // updates without an expected version don't fail
+    const result = await repository.updateById(new ObjectId(), {
+      $set: { name: 'Missing' }
+    });
+    expect(result.matchedCount).toBe(0);
+  });
+
+  test('updateMany() -> increments the version', async () => {
+    const repository = manager.getRepository(Versioned);
+    const [a, b] = await repository.create([{ name: 'A' }, { name: 'B' }]);
+
+    await repository.updateMany({}, { $set: { name: 'C' } });
+    await repository.updateMany({}, [{ $set: { name: 'D' } }]);
+
+    expect(await getVersion(a._id)).toBe(3);
+    expect(await getVersion(b._id)).toBe(3);
+  });
+
+  test('save() -> checks & increments the version', async () => {
+    const repository = manager.getRepository(Versioned);
+    const model = await repository.create({ name: 'John' });
+    const stale = await repository.findById(model._id, { snapshot: true });
+    const loaded = await repository.findById(model._id, { snapshot: true });
+
+    loaded.name = 'Johnny';
+    await repository.save(loaded);
+    expect(loaded.version).toBe(2);
+
+    stale.name = 'Jon';
+    await expect(repository.save(stale)).rejects.toThrow(OptimisticLockError);
+  });
+
+  test('flush() -> checks & increments the version', async () => {
+    const { _id } = await manager
+      .getRepository(Versioned)
+      .create({ name: 'John' });
+
+    const fork = manager.fork();
+    const model = await fork.getRepository(Versioned).findById(_id);
+
+    await manager
+      .getRepository(Versioned)
+      .updateById(_id, { $set: { name: 'Jon' } });
+
+    model.name = 'Johnny';
+    await expect(fork.flush()).rejects.toThrow(OptimisticLockError);
+    expect((await manager.getRepository(Versioned).findById(_id)).name).toBe(
+      'Jon'
+    );
+
+    const retry = manager.fork();
+    const fresh = await retry.getRepository(Versioned).findById(_id);
+    fresh.name = 'Johnny';
+    await retry.flush();
+
+    expect(fresh.version).toBe(3);
+    expect(await getVersion(_id)).toBe(3);
+  });
+
+  test('flush() -> checks & increments the version of soft deletes', async () => {
+    const repository = manager.getRepository(VersionedSoftDeletable);
+    const { _id } = await repository.create({ name: 'John' });
+
+    const fork = manager.fork();
+    const stale = await fork
+      .getRepository(VersionedSoftDeletable)
+      .findById(_id);
+
+    await repository.updateById(_id, { $set: { name: 'Jon' } });
+
+    fork.remove(stale);
+    await expect(fork.flush()).rejects.toThrow(OptimisticLockError);
+    expect(await repository.findById(_id)).not.toBeNull();
+
+    const retry = manager.fork();
+    const fresh = await retry
+      .getRepository(VersionedSoftDeletable)
+      .findById(_id);
+    retry.remove(fresh);
+    await retry.flush();
+
+    expect(fresh.version).toBe(3);
+    expect(await repository.findById(_id, { withDeleted: true })).toMatchObject(
+      { version: 3, deletedAt: expect.any(Date) }
+    );
+  });
+});
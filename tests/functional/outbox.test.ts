@@ -0,0 +1,148 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id } from '../../src/decorators';
+import { OutboxMessage, OutboxRelay, OutboxSubscriber } from '../../src/outbox';
+import { removeDocuments } from '../../src';
+
+@Document()
+class Order {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  customer: string;
+}
+
+describe('outbox', () => {
+  let manager: DocumentManager;
+
+  const subscriber = new OutboxSubscriber<Order>({
+    documents: [Order],
+    afterInsert: (e) => ({
+      type: 'order.created',
+      aggregateId: e.model.customer,
+      payload: { orderId: e.model._id }
+    })
+  });
+
+  const messages = () =>
+    manager
+      .getRepository(OutboxMessage)
+      .find({}, { sort: { _id: 1 } })
+      .toArray();
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Order, OutboxMessage],
+      subscribers: [subscriber]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  test('writes messages in the transaction of the write', async () => {
+    const repository = manager.getRepository(Order);
+
+    const order = await manager.withTransaction(() =>
+      repository.create({ customer: 'john' })
+    );
+
+    await expect(
+      manager.withTransaction(async () => {
+        await repository.create({ customer: 'mary' });
+        throw new Error('Failed');
+      })
+    ).rejects.toThrow('Failed');
+
+    const [message, ...rest] = await messages();
+    expect(rest).toHaveLength(0);
+    expect(message).toBeInstanceOf(OutboxMessage);
+    expect(message).toMatchObject({
+      type: 'order.created',
+      aggregateId: 'john',
+      payload: { orderId: (order as Order)._id },
+      status: 'pending',
+      attempts: 0
+    });
+  });
+
+  test('writes messages in the transaction of unit of work flushes', async () => {
+    const em = manager.fork();
+    const order = em.init(Order, { customer: 'john' });
+    em.persist(order);
+    await em.flush();
+
+    const [message, ...rest] = await messages();
+    expect(rest).toHaveLength(0);
+    expect(message).toMatchObject({
+      type: 'order.created',
+      aggregateId: 'john',
+      payload: { orderId: order._id }
+    });
+  });
+
+  test('publishes messages in order per aggregate & retries failures', async () => {
+    const repository = manager.getRepository(Order);
+    await repository.create({ customer: 'john' });
+    await repository.create({ customer: 'mary' });
+    await repository.create({ customer: 'john' });
+
+    const published: string[] = [];
+    let attempts = 0;
+    const relay = new OutboxRelay(manager, {
+      retryDelay: () => 0,
+      publish: (message) => {
+        if (message.aggregateId === 'john' && attempts++ === 0) {
+          throw new Error('Unavailable');
+        }
+
+        published.push(message.aggregateId);
+      }
+    });
+
+    // the second message of "john" waits for the first one
+    expect(await relay.relay()).toBe(1);
+    expect(published).toEqual(['mary']);
+
+    const [failed] = await messages();
+    expect(failed).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'Unavailable'
+    });
+    expect(failed.lockedBy).toBeUndefined();
+
+    expect(await relay.relay()).toBe(2);
+    expect(published).toEqual(['mary', 'john', 'john']);
+    expect((await messages()).map((m) => m.status)).toEqual([
+      'published',
+      'published',
+      'published'
+    ]);
+  });
+
+  test('marks messages as failed after the max attempts', async () => {
+    await manager.getRepository(Order).create({ customer: 'john' });
+
+    const relay = new OutboxRelay(manager, {
+      maxAttempts: 1,
+      publish: () => {
+        throw new Error('Invalid');
+      }
+    });
+
+    expect(await relay.relay()).toBe(0);
+    expect(await relay.relay()).toBe(0);
+
+    const [message] = await messages();
+    expect(message).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
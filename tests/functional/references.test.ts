@@ -0,0 +1,213 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id, Reference } from '../../src/decorators';
+import { removeDocuments } from '../../src';
+
+@Document({ collection: 'reference_users' })
+class User {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+}
+
+@Document({ collection: 'reference_comments' })
+class Comment {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  body: string;
+
+  @Reference(() => User)
+  author: User;
+}
+
+class Attachment {
+  @Field()
+  name: string;
+
+  @Reference(() => User, { name: 'uploader' })
+  uploadedBy: User;
+}
+
+@Document({ collection: 'reference_posts' })
+class Post {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  title: string;
+
+  @Reference(() => User, { name: 'authorId' })
+  author: User;
+
+  @Reference(() => [Comment])
+  comments: Comment[] = [];
+
+  @Field(() => [Attachment])
+  attachments: Attachment[] = [];
+}
+
+describe('@Reference()', () => {
+  let manager: DocumentManager;
+  let john: User;
+  let jane: User;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User, Comment, Post]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+
+    [john, jane] = await manager
+      .getRepository(User)
+      .create([{ name: 'John' }, { name: 'Jane' }]);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  const createPost = async (title: string = 'Hello') => {
+    const comments = await manager.getRepository(Comment).create([
+      { body: 'First', author: jane },
+      { body: 'Second', author: john }
+    ]);
+
+    return manager.getRepository(Post).create({
+      title,
+      author: john,
+      comments,
+      attachments: [{ name: 'photo.png', uploadedBy: jane }]
+    });
+  };
+
+  test('stores the referenced ids', async () => {
+    const post = await createPost();
+
+    const doc = await manager
+      .collection<Post, any>(Post)
+      .findOne({ _id: post._id });
+
+    expect(doc).toEqual({
+      _id: post._id,
+      title: 'Hello',
+      authorId: john._id,
+      comments: post.comments.map((comment) => comment._id),
+      attachments: [{ name: 'photo.png', uploader: jane._id }]
+    });
+  });
+
+  test('hydrates references as ids without populate', async () => {
+    const post = await createPost();
+
+    const found = await manager.getRepository(Post).findById(post._id);
+
+    expect(found.author).toEqual(john._id);
+    expect(found.comments).toEqual(post.comments.map((c) => c._id));
+  });
+
+  test('casts references in filters', async () => {
+    const post = await createPost();
+
+    const found = await manager
+      .getRepository(Post)
+      .find({ author: john })
+      .toArray();
+
+    expect(found.map((p) => p._id)).toEqual([post._id]);
+  });
+
+  test('findOne() -> populates references', async () => {
+    const post = await createPost();
+
+    const found = await manager.getRepository(Post).findById(post._id, {
+      populate: ['author', 'comments.author', 'attachments.uploadedBy']
+    });
+
+    expect(found.author).toBeInstanceOf(User);
+    expect(found.author).toEqual(john);
+    expect(found.comments).toHaveLength(2);
+    found.comments.forEach((comment) =>
+      expect(comment).toBeInstanceOf(Comment)
+    );
+    expect(found.comments.map((comment) => comment.author)).toEqual([
+      jane,
+      john
+    ]);
+    expect(found.attachments[0].uploadedBy).toEqual(jane);
+  });
+
+  test('find() -> populates references', async () => {
+    await createPost('First');
+    await createPost('Second');
+
+    const repository = manager.getRepository(Post);
+    const posts = await repository
+      .find({}, { populate: ['author'] })
+      .sort({ title: 1 })
+      .toArray();
+
+    expect(posts.map((post) => post.title)).toEqual(['First', 'Second']);
+    posts.forEach((post) => expect(post.author).toEqual(john));
+
+    const cursor = repository.find({}, { populate: ['comments'] });
+    const next = await cursor.next();
+    expect(next.comments[0]).toBeInstanceOf(Comment);
+    await cursor.close();
+  });
+
+  test('find() -> populates streamed models in batches', async () => {
+    await createPost('First');
+    await createPost('Second');
+    await createPost('Third');
+    const find = jest.spyOn(manager.getRepository(User), 'find');
+
+    const titles: string[] = [];
+    const cursor = manager
+      .getRepository(Post)
+      .find({}, { populate: ['author'], batchSize: 2 })
+      .sort({ title: 1 });
+    for await (const post of cursor) {
+      expect(post.author).toEqual(john);
+      titles.push(post.title);
+    }
+
+    expect(titles).toEqual(['First', 'Second', 'Third']);
+    expect(find).toHaveBeenCalledTimes(2);
+    find.mockRestore();
+  });
+
+  test('populate() -> handles missing references', async () => {
+    const post = await createPost();
+    await manager.getRepository(User).deleteById(john._id);
+
+    const [found] = await manager
+      .getRepository(Post)
+      .find({ _id: post._id }, { populate: ['author', 'comments.author'] })
+      .toArray();
+
+    expect(found.author).toBeNull();
+    expect(found.comments.map((comment) => comment.author)).toEqual([
+      jane,
+      null
+    ]);
+  });
+
+  test('populate() -> fails for non-references', async () => {
+    await createPost();
+
+    await expect(
+      manager.getRepository(Post).findOne({}, { populate: ['title'] })
+    ).rejects.toThrow(
+      'Cannot populate "title" of "Post", it is not a reference'
+    );
+  });
+});
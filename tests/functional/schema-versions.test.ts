@@ -0,0 +1,224 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import {
+  Discriminator,
+  Document,
+  Field,
+  Id,
+  Version
+} from '../../src/decorators';
+
+@Document({
+  collection: 'schema_version_users',
+  schemaVersion: 3,
+  upcasters: {
+    // v1 stored the full name
+    1: ({ name, ...doc }) => {
+      const [firstName, lastName] = name.split(' ');
+      return { ...doc, firstName, lastName };
+    },
+    // v2 stored the age instead of the birth year
+    2: ({ age, ...doc }) => ({ ...doc, birthYear: 2020 - age })
+  }
+})
+class User {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  firstName: string;
+
+  @Field()
+  lastName: string;
+
+  @Field()
+  birthYear: number;
+
+  @Version()
+  version: number;
+}
+
+@Document({
+  collection: 'schema_version_pets',
+  schemaVersion: 2,
+  upcasters: { 1: ({ nickname, ...doc }) => ({ ...doc, name: nickname }) }
+})
+@Discriminator({ property: 'type' })
+class Pet {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  type: string;
+
+  @Field()
+  name: string;
+}
+
+@Discriminator({ value: 'dog' })
+class Dog extends Pet {}
+
+describe('schema versions', () => {
+  let manager: DocumentManager;
+
+  const collection = () => manager.collection(User);
+  const repository = () => manager.getRepository(User);
+
+  const insertStale = async () => {
+    const v1 = new ObjectId();
+    const v2 = new ObjectId();
+
+    await collection().insertMany([
+      { _id: v1, name: 'John Doe', age: 30, version: 1 },
+      {
+        _id: v2,
+        _schemaVersion: 2,
+        firstName: 'Mary',
+        lastName: 'Jane',
+        age: 20
+      }
+    ] as any[]);
+
+    return [v1, v2];
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [User, Pet, Dog]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await collection().deleteMany({});
+    await manager.collection(Pet).deleteMany({});
+  });
+
+  test('upcasts stale documents', async () => {
+    const [v1, v2] = await insertStale();
+
+    const john = await repository().findByIdOrFail(v1);
+    expect(john).toBeInstanceOf(User);
+    expect(john).toMatchObject({
+      firstName: 'John',
+      lastName: 'Doe',
+      birthYear: 1990,
+      version: 1
+    });
+
+    expect(await repository().findByIdOrFail(v2)).toMatchObject({
+      firstName: 'Mary',
+      lastName: 'Jane',
+      birthYear: 2000
+    });
+  });
+
+  test('writes the current version', async () => {
+    const user = await repository().create({
+      firstName: 'John',
+      lastName: 'Doe',
+      birthYear: 1990
+    });
+
+    expect(await collection().findOne({ _id: user._id })).toMatchObject({
+      _schemaVersion: 3
+    });
+
+    await repository().updateOne(
+      { firstName: 'Mary' },
+      { $set: { lastName: 'Jane' } },
+      { upsert: true }
+    );
+    expect(await collection().findOne({ firstName: 'Mary' })).toMatchObject({
+      _schemaVersion: 3
+    });
+  });
+
+  test('saving rewrites stale documents', async () => {
+    const [v1] = await insertStale();
+
+    const john = await repository().findByIdOrFail(v1, { snapshot: true });
+    john.lastName = 'Smith';
+    await repository().save(john);
+
+    expect(await collection().findOne({ _id: v1 })).toEqual({
+      _id: v1,
+      _schemaVersion: 3,
+      firstName: 'John',
+      lastName: 'Smith',
+      birthYear: 1990,
+      version: 2
+    });
+  });
+
+  test('upgradeAll()', async () => {
+    const [v1, v2] = await insertStale();
+    await repository().create({
+      firstName: 'Jack',
+      lastName: 'Black',
+      birthYear: 1970
+    });
+
+    expect(await repository().upgradeAll({ batchSize: 1 })).toBe(2);
+    expect(await repository().upgradeAll()).toBe(0);
+
+    expect(await collection().findOne({ _id: v1 })).toEqual({
+      _id: v1,
+      _schemaVersion: 3,
+      firstName: 'John',
+      lastName: 'Doe',
+      birthYear: 1990,
+      version: 2
+    });
+    expect(await collection().findOne({ _id: v2 })).toEqual({
+      _id: v2,
+      _schemaVersion: 3,
+      firstName: 'Mary',
+      lastName: 'Jane',
+      birthYear: 2000
+    });
+  });
+
+  test('upgradeAll() -> only upgrades the documents in scope', async () => {
+    const dog = new ObjectId();
+    const cat = new ObjectId();
+    await manager.collection<Pet, any>(Pet).insertMany([
+      { _id: dog, type: 'dog', nickname: 'Fido' },
+      { _id: cat, type: 'cat', nickname: 'Tom' }
+    ]);
+
+    expect(await manager.getRepository(Dog).upgradeAll()).toBe(1);
+
+    expect(await manager.collection(Pet).findOne({ _id: dog })).toEqual({
+      _id: dog,
+      _schemaVersion: 2,
+      type: 'dog',
+      name: 'Fido'
+    });
+    expect(await manager.collection(Pet).findOne({ _id: cat })).toEqual({
+      _id: cat,
+      type: 'cat',
+      nickname: 'Tom'
+    });
+  });
+
+  test('requires the upcasters of older versions', async () => {
+    @Document({ schemaVersion: 2 })
+    class Invalid {
+      @Id()
+      _id: ObjectId;
+    }
+
+    await expect(
+      DocumentManager.create({
+        uri: process.env.MONGODB_URI,
+        documents: [Invalid]
+      })
+    ).rejects.toThrow('missing the upcaster of schema version 1');
+  });
+});
@@ -0,0 +1,187 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { DeletedAt, Document, Field, Id } from '../../src/decorators';
+import { DeleteEvent, EventSubscriber } from '../../src/events';
+import { removeDocuments } from '../../src';
+
+@Document({ collection: 'soft_deletable' })
+class SoftDeletable {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @DeletedAt({ name: 'deleted_at' })
+  deletedAt?: Date;
+}
+
+describe('@DeletedAt()', () => {
+  let manager: DocumentManager;
+  const events: DeleteEvent[] = [];
+
+  const subscriber: EventSubscriber = {
+    beforeDelete: (e) => {
+      events.push(e);
+    },
+    afterDeleteMany: (e) => {
+      events.push(e);
+    }
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [SoftDeletable],
+      subscribers: [subscriber]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+    events.length = 0;
+
+    await manager
+      .getRepository(SoftDeletable)
+      .create([{ name: 'John' }, { name: 'Mary' }, { name: 'Jane' }]);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  const countAll = () => manager.collection(SoftDeletable).countDocuments({});
+
+  test('deleteOne() -> soft deletes', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+    const john = await repository.findOne({ name: 'John' });
+
+    expect(await repository.deleteById(john._id)).toBe(true);
+    expect(await repository.deleteById(john._id)).toBe(false);
+
+    expect(await countAll()).toBe(3);
+    expect(await repository.findById(john._id)).toBeNull();
+
+    const doc = await manager
+      .collection<SoftDeletable, any>(SoftDeletable)
+      .findOne({ _id: john._id });
+    expect(doc.deleted_at).toBeInstanceOf(Date);
+
+    expect(events).toHaveLength(2);
+    expect(events[0]).toEqual({
+      meta: manager.getMetadataFor(SoftDeletable),
+      filter: { _id: john._id },
+      soft: true
+    });
+  });
+
+  test('deleteMany() -> soft deletes', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+
+    const result = await repository.deleteMany({ name: { $ne: 'John' } });
+    expect(result.deletedCount).toBe(2);
+    expect(events[0].soft).toBe(true);
+
+    expect(await countAll()).toBe(3);
+    const found = await repository.find().toArray();
+    expect(found.map((m) => m.name)).toEqual(['John']);
+  });
+
+  test('findOneAndDelete() -> soft deletes', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+
+    const deleted = await repository.findOneAndDelete({ name: 'John' });
+    expect(deleted.name).toBe('John');
+    expect(deleted.deletedAt).toBeInstanceOf(Date);
+
+    expect(await repository.findOneAndDelete({ name: 'John' })).toBeNull();
+  });
+
+  test('scopes queries & updates', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+    await repository.deleteOne({ name: 'John' });
+
+    expect(await repository.findOne({ name: 'John' })).toBeNull();
+    expect(
+      await repository.findOne({ name: 'John' }, { withDeleted: true })
+    ).toMatchObject({ name: 'John' });
+
+    const deleted = await repository.find({}, { onlyDeleted: true }).toArray();
+    expect(deleted.map((m) => m.name)).toEqual(['John']);
+
+    const all = await repository.find({}, { withDeleted: true }).toArray();
+    expect(all).toHaveLength(3);
+
+    const result = await repository.updateMany({}, { $set: { name: 'X' } });
+    expect(result.modifiedCount).toBe(2);
+  });
+
+  test('restore() -> restores soft deleted documents', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+    await repository.deleteMany({});
+
+    const result = await repository.restore({ name: 'Mary' });
+    expect(result.modifiedCount).toBe(1);
+
+    const found = await repository.find().toArray();
+    expect(found.map((m) => m.name)).toEqual(['Mary']);
+    expect(found[0].deletedAt).toBeUndefined();
+  });
+
+  test('forceDelete() -> permanently deletes', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+    await repository.deleteOne({ name: 'John' });
+
+    const result = await repository.forceDelete({
+      name: { $in: ['John', 'Mary'] }
+    });
+    expect(result.deletedCount).toBe(2);
+    expect(await countAll()).toBe(1);
+    expect(events[1].soft).toBeUndefined();
+
+    expect(
+      await repository.deleteOne({ name: 'Jane' }, { forceDelete: true })
+    ).toBe(true);
+    expect(await countAll()).toBe(0);
+  });
+
+  test('save() -> updates soft deleted models', async () => {
+    const repository = manager.getRepository(SoftDeletable);
+    await repository.deleteOne({ name: 'John' });
+
+    const john = await repository.findOne(
+      { name: 'John' },
+      { withDeleted: true, snapshot: true }
+    );
+    john.name = 'Johnny';
+    await repository.save(john);
+
+    expect(
+      await repository.findById(john._id, { withDeleted: true })
+    ).toMatchObject({ name: 'Johnny', deletedAt: expect.any(Date) });
+
+    await repository.forceDelete({ name: 'Johnny' });
+    john.name = 'Jon';
+    await expect(repository.save(john)).rejects.toThrow(
+      '"SoftDeletable" not found'
+    );
+  });
+
+  test('flush() -> soft deletes removed models', async () => {
+    const fork = manager.fork();
+    const john = await fork
+      .getRepository(SoftDeletable)
+      .findOne({ name: 'John' });
+
+    fork.remove(john);
+    await fork.flush();
+
+    expect(john.deletedAt).toBeInstanceOf(Date);
+    expect(events[0].soft).toBe(true);
+    expect(await countAll()).toBe(3);
+    expect(
+      await manager.getRepository(SoftDeletable).findById(john._id)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import {
+  CreatedAt,
+  Document,
+  Field,
+  Id,
+  UpdatedAt
+} from '../../src/decorators';
+import { removeDocuments } from '../../src';
+
+@Document({ collection: 'timestamped' })
+class Timestamped {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+
+  @CreatedAt()
+  createdAt: Date;
+
+  @UpdatedAt({ name: 'updated_at' })
+  updatedAt: Date;
+}
+
+describe('@CreatedAt() & @UpdatedAt()', () => {
+  let manager: DocumentManager;
+  const past = new Date('2020-01-01T00:00:00.000Z');
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Timestamped]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  const getDoc = (_id: ObjectId) =>
+    manager.collection<Timestamped, any>(Timestamped).findOne({ _id });
+
+  const createPast = () =>
+    manager
+      .getRepository(Timestamped)
+      .create({ name: 'John', createdAt: past, updatedAt: past });
+
+  test('init() & inserts -> set both dates', async () => {
+    const repository = manager.getRepository(Timestamped);
+
+    const model = repository.init({ name: 'John' });
+    expect(model.createdAt).toBeInstanceOf(Date);
+    expect(model.updatedAt).toBe(model.createdAt);
+
+    const raw = new Timestamped();
+    raw.name = 'Mary';
+    await repository.insertOne(raw);
+
+    const other = new Timestamped();
+    other.name = 'Jane';
+    await repository.insertMany([other]);
+
+    const doc = await getDoc(raw._id);
+    expect(doc.createdAt).toBeInstanceOf(Date);
+    expect(doc.updated_at).toEqual(doc.createdAt);
+    expect((await getDoc(other._id)).updated_at).toBeInstanceOf(Date);
+  });
+
+  test('updates -> set the updated date', async () => {
+    const repository = manager.getRepository(Timestamped);
+    const { _id } = await createPast();
+
+    await repository.updateById(_id, { $set: { name: 'Johnny' } });
+    let doc = await getDoc(_id);
+    expect(doc.updated_at.getTime()).toBeGreaterThan(past.getTime());
+    expect(doc.createdAt).toEqual(past);
+
+    await repository.updateMany({}, [{ $set: { updated_at: past } }]);
+    expect((await getDoc(_id)).updated_at).not.toEqual(past);
+
+    const updated = await repository.findByIdAndUpdate(
+      _id,
+      { $set: { updatedAt: past } },
+      { returnDocument: 'after' }
+    );
+    expect(updated.updatedAt).toEqual(past);
+
+    doc = await getDoc(_id);
+    expect(doc.createdAt).toEqual(past);
+  });
+
+  test('upserts -> set the created date on insert', async () => {
+    const repository = manager.getRepository(Timestamped);
+
+    await repository.updateOne(
+      { name: 'New' },
+      { $set: { name: 'New' } },
+      { upsert: true }
+    );
+    const created = await repository.findOne({ name: 'New' });
+    expect(created.createdAt).toBeInstanceOf(Date);
+    expect(created.updatedAt).toEqual(created.createdAt);
+
+    await repository.updateOne(
+      { name: 'New' },
+      { $set: { name: 'New' } },
+      { upsert: true }
+    );
+    const updated = await repository.findOne({ name: 'New' });
+    expect(updated.createdAt).toEqual(created.createdAt);
+  });
+
+  test('replacements -> keep the created date', async () => {
+    const repository = manager.getRepository(Timestamped);
+    const { _id } = await createPast();
+
+    await repository.replaceById(_id, { name: 'Johnny' });
+    let doc = await getDoc(_id);
+    expect(doc).toMatchObject({ _id, name: 'Johnny', createdAt: past });
+    expect(doc.updated_at.getTime()).toBeGreaterThan(past.getTime());
+
+    const replaced = await repository.findByIdAndReplace(
+      _id,
+      repository.init({ name: 'Jon' }),
+      { returnDocument: 'after' }
+    );
+    expect(replaced).toMatchObject({ _id, name: 'Jon', createdAt: past });
+
+    // upserted replacements use the new model's date
+    const model = repository.init({ name: 'Jane' });
+    await repository.replaceById(model._id, model, { upsert: true });
+    doc = await getDoc(model._id);
+    expect(doc.createdAt).toEqual(model.createdAt);
+  });
+
+  test('save() & flush() -> set the updated date', async () => {
+    const { _id } = await createPast();
+
+    const model = await manager
+      .getRepository(Timestamped)
+      .findById(_id, { snapshot: true });
+    model.name = 'Johnny';
+    await manager.getRepository(Timestamped).save(model);
+    expect(model.updatedAt.getTime()).toBeGreaterThan(past.getTime());
+    expect((await getDoc(_id)).updated_at).toEqual(model.updatedAt);
+
+    const fork = manager.fork();
+    const managed = await fork.getRepository(Timestamped).findById(_id);
+    const { updatedAt } = managed;
+
+    await fork.flush();
+    expect(managed.updatedAt).toBe(updatedAt);
+
+    managed.name = 'Jon';
+    await fork.flush();
+    expect(managed.updatedAt).not.toBe(updatedAt);
+    expect((await getDoc(_id)).updated_at).toEqual(managed.updatedAt);
+    expect((await getDoc(_id)).createdAt).toEqual(past);
+  });
+});
@@ -0,0 +1,133 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id } from '../../src/decorators';
+import { EventSubscriber } from '../../src/events';
+import { removeDocuments } from '../../src';
+
+@Document()
+class Message {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  text: string;
+}
+
+describe('transaction events', () => {
+  let manager: DocumentManager;
+  const events: string[] = [];
+
+  const subscriber: EventSubscriber<Message> = {
+    afterInsert: (e) => {
+      events.push(`afterInsert:${e.model.text}`);
+    },
+    afterInsertCommit: (e) => {
+      events.push(`afterInsertCommit:${e.model.text}`);
+    },
+    afterInsertRollback: (e) => {
+      events.push(`afterInsertRollback:${e.model.text}`);
+    },
+    afterUpdateManyCommit: () => {
+      events.push('afterUpdateManyCommit');
+    }
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Message],
+      subscribers: [subscriber]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+    events.length = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('writes outside of transactions commit right away', async () => {
+    await manager.getRepository(Message).create({ text: 'hello' });
+
+    expect(events).toEqual(['afterInsert:hello', 'afterInsertCommit:hello']);
+  });
+
+  test('dispatches commit events once the transaction committed', async () => {
+    const repository = manager.getRepository(Message);
+
+    await manager.withTransaction(async () => {
+      await repository.create({ text: 'hello' });
+      await repository.updateMany({}, { $set: { text: 'world' } });
+      events.push('end');
+    });
+
+    expect(events).toEqual([
+      'afterInsert:hello',
+      'end',
+      'afterInsertCommit:hello',
+      'afterUpdateManyCommit'
+    ]);
+  });
+
+  test('dispatches rollback events once the transaction aborted', async () => {
+    const repository = manager.getRepository(Message);
+
+    await expect(
+      manager.withTransaction(async () => {
+        await repository.create({ text: 'hello' });
+        throw new Error('Failed');
+      })
+    ).rejects.toThrow('Failed');
+
+    expect(events).toEqual(['afterInsert:hello', 'afterInsertRollback:hello']);
+    expect(await repository.countDocuments()).toBe(0);
+  });
+
+  test('dispatches rollback events once the transaction is aborted explicitly', async () => {
+    const repository = manager.getRepository(Message);
+
+    await manager.withTransaction(async (session) => {
+      await repository.create({ text: 'hello' });
+      await session.abortTransaction();
+    });
+
+    expect(events).toEqual(['afterInsert:hello', 'afterInsertRollback:hello']);
+  });
+
+  test('rollback subscribers keep the error of the transaction', async () => {
+    const repository = manager.getRepository(Message);
+    jest
+      .spyOn(subscriber, 'afterInsertRollback')
+      .mockRejectedValueOnce(new Error('Subscriber failed'));
+
+    await expect(
+      manager.withTransaction(async () => {
+        await repository.create({ text: 'hello' });
+        throw new Error('Failed');
+      })
+    ).rejects.toThrow('Failed');
+  });
+
+  test('unit of work flushes join the transaction', async () => {
+    await manager.withTransaction(async () => {
+      const em = manager.fork();
+      em.persist(em.init(Message, { text: 'hello' }));
+      await em.flush();
+      events.push('flushed');
+    });
+
+    expect(events).toEqual([
+      'afterInsert:hello',
+      'flushed',
+      'afterInsertCommit:hello'
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id } from '../../src/decorators';
+import { EventSubscriber } from '../../src/events';
+import { removeDocuments } from '../../src';
+import { UUIDDocument } from '../__fixtures__/UUIDDocument';
+
+@Document({ collection: 'uow_authors' })
+class Author {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  name: string;
+}
+
+@Document({ collection: 'uow_books' })
+class Book {
+  @Id()
+  _id: ObjectId;
+
+  @Field()
+  title: string;
+}
+
+describe('DocumentManager.fork()', () => {
+  let manager: DocumentManager;
+  const events: string[] = [];
+
+  const subscriber: EventSubscriber = {
+    beforeInsert: (e) => {
+      events.push(`beforeInsert:${e.meta.name}`);
+    },
+    afterInsert: (e) => {
+      events.push(`afterInsert:${e.meta.name}`);
+    },
+    beforeReplace: (e) => {
+      events.push(`beforeReplace:${e.meta.name}`);
+    },
+    afterReplace: (e) => {
+      events.push(`afterReplace:${e.meta.name}`);
+    },
+    beforeDelete: (e) => {
+      events.push(`beforeDelete:${e.meta.name}`);
+    },
+    afterDelete: (e) => {
+      events.push(`afterDelete:${e.meta.name}`);
+    }
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Author, Book, UUIDDocument],
+      subscribers: [subscriber]
+    });
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+    events.length = 0;
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  test('requires a fork', () => {
+    expect(manager.unitOfWork).toBeUndefined();
+    expect(() => manager.persist(new Author())).toThrow(
+      'The unit of work is only available on forked managers, use "fork()"'
+    );
+  });
+
+  test('forks use their own repositories', () => {
+    const fork = manager.fork();
+    const repository = fork.getRepository(Author);
+
+    expect(repository).toBe(fork.getRepository(Author));
+    expect(repository).not.toBe(manager.getRepository(Author));
+    expect(repository.manager).toBe(fork);
+    expect(repository.metadata).toBe(manager.getMetadataFor(Author));
+    expect(manager.getRepository(Author).manager).toBe(manager);
+  });
+
+  test('identity map returns the same instance', async () => {
+    const { _id } = await manager.getRepository(Author).create({ name: 'J' });
+
+    const fork = manager.fork();
+    const repository = fork.getRepository(Author);
+    const author = await repository.findById(_id);
+
+    expect(await repository.findOne({ name: 'J' })).toBe(author);
+    expect((await repository.find().toArray())[0]).toBe(author);
+    expect(await manager.fork().getRepository(Author).findById(_id)).not.toBe(
+      author
+    );
+  });
+
+  test('identity map keys converted ids', async () => {
+    const { id } = await manager
+      .getRepository(UUIDDocument)
+      .create({ name: 'J' });
+
+    const repository = manager.fork().getRepository(UUIDDocument);
+    const model = await repository.findById(id);
+
+    expect(model.id).toBe(id);
+    expect(await repository.findOne({ name: 'J' })).toBe(model);
+  });
+
+  test('flush() -> writes tracked changes', async () => {
+    const existing = await manager
+      .getRepository(Author)
+      .create([{ name: 'John' }, { name: 'Jane' }]);
+
+    const fork = manager.fork();
+    const [john, jane] = await fork
+      .getRepository(Author)
+      .find({}, { sort: { name: -1 } })
+      .toArray();
+
+    const book = fork.init(Book, { title: 'Book' });
+    const draft = fork.init(Book, { title: 'Draft' });
+
+    john.name = 'Johnny';
+    fork.persist(book);
+    fork.persist(draft);
+    fork.remove(draft);
+    fork.remove(jane);
+
+    await fork.flush();
+
+    expect(events).toEqual([
+      'beforeInsert:Book',
+      'beforeReplace:Author',
+      'beforeDelete:Author',
+      'afterInsert:Book',
+      'afterReplace:Author',
+      'afterDelete:Author'
+    ]);
+    expect(await manager.getRepository(Author).find().toArray()).toEqual([
+      { _id: existing[0]._id, name: 'Johnny' }
+    ]);
+    expect(await manager.getRepository(Book).find().toArray()).toEqual([
+      { _id: book._id, title: 'Book' }
+    ]);
+    expect(fork.unitOfWork.contains(book)).toBe(true);
+    expect(fork.unitOfWork.contains(jane)).toBe(false);
+
+    // nothing changed
+    events.length = 0;
+    await fork.flush();
+    expect(events).toEqual([]);
+
+    // inserted models are tracked
+    book.title = 'Updated';
+    await fork.flush();
+    expect(events).toEqual(['beforeReplace:Book', 'afterReplace:Book']);
+    expect(await manager.getRepository(Book).findById(book._id)).toEqual({
+      _id: book._id,
+      title: 'Updated'
+    });
+  });
+
+  test('clear() -> detaches models', async () => {
+    const { _id } = await manager.getRepository(Author).create({ name: 'J' });
+
+    events.length = 0;
+
+    const fork = manager.fork();
+    const author = await fork.getRepository(Author).findById(_id);
+    fork.clear();
+
+    author.name = 'Changed';
+    await fork.flush();
+
+    expect(events).toEqual([]);
+    expect(await fork.getRepository(Author).findById(_id)).not.toBe(author);
+  });
+});
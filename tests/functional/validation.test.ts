@@ -0,0 +1,187 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Document, Field, Id } from '../../src/decorators';
+import { ValidationError } from '../../src/errors';
+import { removeDocuments } from '../../src';
+
+class Address {
+  @Field({ required: true, minLength: 2 })
+  city: string;
+}
+
+enum Role {
+  Admin = 'admin',
+  Member = 'member'
+}
+
+@Document()
+class Member {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ required: true, pattern: /^[A-Z]/ })
+  name: string;
+
+  @Field({ enum: Role })
+  role?: Role;
+
+  @Field({ min: 1, max: 5, maxLength: 3 })
+  ratings?: number[];
+
+  @Field({ nullable: false, validate: (v) => v !== 'none' || 'is reserved' })
+  nickname?: string;
+
+  @Field(() => Address, { required: true })
+  address: Address;
+
+  @Field(() => [Address])
+  addresses?: Address[];
+}
+
+describe('validation', () => {
+  let manager: DocumentManager;
+
+  const getError = async (fn: () => Promise<any>): Promise<ValidationError> => {
+    try {
+      await fn();
+    } catch (err) {
+      return err;
+    }
+  };
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Member]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  beforeEach(async () => {
+    await removeDocuments(manager);
+  });
+
+  test('inserts valid models', async () => {
+    const member = await manager.getRepository(Member).create({
+      name: 'John',
+      role: Role.Admin,
+      ratings: [1, 5],
+      address: { city: 'San Diego' }
+    });
+
+    expect(member).toBeInstanceOf(Member);
+  });
+
+  test('lists every failing property path', async () => {
+    const repository = manager.getRepository(Member);
+
+    const err = await getError(() =>
+      repository.create({
+        name: 'john',
+        role: 'owner' as Role,
+        ratings: [0, 1, 2, 6],
+        nickname: 'none',
+        address: { city: 'S' },
+        addresses: [{ city: 'Seattle' }, {} as Address]
+      })
+    );
+
+    expect(err).toBeInstanceOf(ValidationError);
+    expect(err.metadata.code).toBe('INVALID_FIELDS');
+    expect(err.metadata.paths).toEqual([
+      'name',
+      'role',
+      'ratings',
+      'ratings.0',
+      'ratings.3',
+      'nickname',
+      'address.city',
+      'addresses.1.city'
+    ]);
+    expect(err.metadata.failures[5]).toEqual({
+      path: 'nickname',
+      constraint: 'validate',
+      message: 'is reserved'
+    });
+    expect(await repository.countDocuments()).toBe(0);
+  });
+
+  test('required & nullable', async () => {
+    const err = await getError(() =>
+      manager
+        .getRepository(Member)
+        .insertMany([
+          manager.init(Member, { name: 'John', address: { city: 'SD' } }),
+          manager.init(Member, { nickname: null })
+        ])
+    );
+
+    expect(err.metadata.failures.map((f: any) => f.constraint)).toEqual([
+      'required',
+      'nullable',
+      'required'
+    ]);
+  });
+
+  test('replaceOne()', async () => {
+    const repository = manager.getRepository(Member);
+    const member = await repository.create({
+      name: 'John',
+      address: { city: 'SD' }
+    });
+    member.address.city = '';
+
+    const err = await getError(() =>
+      repository.replaceById(member._id, member)
+    );
+
+    expect(err.metadata.paths).toEqual(['address.city']);
+  });
+
+  test('$set values of updates', async () => {
+    const repository = manager.getRepository(Member);
+
+    const err = await getError(() =>
+      repository.updateMany(
+        {},
+        {
+          $set: {
+            name: 'lowercase',
+            'address.city': null,
+            'addresses.0': { city: '' },
+            'ratings.$': 10
+          }
+        }
+      )
+    );
+
+    expect(err.metadata.paths).toEqual([
+      'name',
+      'address.city',
+      'addresses.0.city',
+      'ratings.$'
+    ]);
+  });
+
+  test('$setOnInsert values & added array items of updates', async () => {
+    const repository = manager.getRepository(Member);
+
+    const err = await getError(() =>
+      repository.updateOne(
+        {},
+        {
+          $setOnInsert: { name: 'lowercase' },
+          $push: { ratings: { $each: [3, 10] } },
+          $addToSet: { addresses: { city: '' } }
+        },
+        { upsert: true }
+      )
+    );
+
+    expect(err.metadata.paths).toEqual(['name', 'ratings', 'addresses.city']);
+  });
+});
@@ -0,0 +1,168 @@
+import 'reflect-metadata';
+import { ObjectId } from 'mongodb';
+import { DocumentManager } from '../../src/DocumentManager';
+import { Discriminator, Document, Field, Id } from '../../src/decorators';
+import { UUIDType } from '../../src/types';
+import { createJsonSchema } from '../../src/schema';
+
+@Discriminator({ property: 'kind' })
+abstract class Payment {
+  @Field()
+  abstract kind: string;
+
+  @Field({ required: true, min: 0 })
+  amount: number;
+}
+
+@Discriminator({ value: 'card' })
+class CardPayment extends Payment {
+  kind = 'card';
+
+  @Field({ pattern: /^\d{4}$/ })
+  last4: string;
+}
+
+@Discriminator({ value: 'cash' })
+class CashPayment extends Payment {
+  kind = 'cash';
+}
+
+@Document({ collection: 'validated_invoices' })
+class Invoice {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ type: UUIDType, name: 'uid', required: true })
+  uuid: string;
+
+  @Field({ required: true, minLength: 1 })
+  number: string;
+
+  @Field({ pattern: /^inv-/i })
+  reference: string;
+
+  @Field({ enum: ['draft', 'sent'], nullable: false })
+  status: string;
+
+  @Field({ maxLength: 10 })
+  tags: string[];
+
+  @Field(() => [Payment])
+  payments: (CardPayment | CashPayment)[];
+}
+
+@Document({ collection: 'sticky_patterns' })
+class StickyPattern {
+  @Id()
+  _id: ObjectId;
+
+  @Field({ pattern: /^[A-Z]+/gy })
+  code: string;
+}
+
+describe('validators', () => {
+  let manager: DocumentManager;
+
+  beforeAll(async () => {
+    manager = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [Invoice]
+    });
+  });
+
+  afterAll(async () => {
+    await manager.close();
+  });
+
+  test('createJsonSchema()', () => {
+    const schema = createJsonSchema(manager.getMetadataFor(Invoice));
+
+    expect(schema.required).toEqual(['_id', 'uid', 'number']);
+    expect(schema.properties._id).toEqual({ bsonType: 'objectId' });
+    expect(schema.properties.uid).toEqual({ bsonType: 'binData' });
+    expect(schema.properties.number).toEqual({
+      bsonType: 'string',
+      minLength: 1
+    });
+    expect(schema.properties.reference).toEqual({
+      bsonType: ['string', 'null'],
+      pattern: '(?i)^inv-'
+    });
+    expect(schema.properties.status).toEqual({
+      bsonType: 'string',
+      enum: ['draft', 'sent']
+    });
+    expect(schema.properties.tags).toEqual({
+      bsonType: ['array', 'null'],
+      items: {},
+      maxItems: 10
+    });
+
+    const { items } = schema.properties.payments;
+    expect(items.oneOf).toHaveLength(2);
+    expect(items.oneOf[0]).toMatchObject({
+      bsonType: 'object',
+      title: 'CardPayment',
+      required: ['amount', 'kind'],
+      properties: {
+        kind: { enum: ['card'] },
+        amount: { bsonType: 'number', minimum: 0 },
+        last4: { bsonType: ['string', 'null'], pattern: '^\\d{4}$' }
+      }
+    });
+    expect(items.oneOf[1].properties.kind).toEqual({ enum: ['cash'] });
+  });
+
+  test('createJsonSchema() -> rejects unsupported pattern flags', async () => {
+    const other = await DocumentManager.create({
+      uri: process.env.MONGODB_URI,
+      documents: [StickyPattern]
+    });
+
+    try {
+      expect(() =>
+        createJsonSchema(other.getMetadataFor(StickyPattern))
+      ).toThrow(
+        'The pattern of "StickyPattern.code" has unsupported flags "y"'
+      );
+    } finally {
+      await other.close();
+    }
+  });
+
+  test('syncValidators() -> dryRun', async () => {
+    const [plan] = await manager.syncValidators({
+      action: 'warn',
+      dryRun: true
+    });
+
+    expect(plan).toEqual({
+      database: manager.db(Invoice).databaseName,
+      collection: 'validated_invoices',
+      validator: {
+        $jsonSchema: createJsonSchema(manager.getMetadataFor(Invoice))
+      },
+      validationLevel: 'strict',
+      validationAction: 'warn'
+    });
+  });
+
+  test('syncValidators() rejects invalid documents', async () => {
+    await manager.syncValidators();
+
+    const collection = manager.collection(Invoice);
+    await collection.deleteMany({});
+
+    await expect(
+      collection.insertOne({ number: 1 } as any)
+    ).rejects.toMatchObject({ code: 121 });
+
+    await manager.getRepository(Invoice).create({
+      uuid: '4a5e5a6b-3bd0-4a0e-9e4f-0d7b8b2f6c35',
+      number: 'INV-1',
+      status: 'draft',
+      payments: [{ kind: 'cash', amount: 10 }]
+    });
+    expect(await collection.countDocuments()).toBe(1);
+  });
+});